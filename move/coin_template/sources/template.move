@@ -0,0 +1,69 @@
+// Pre-compiled coin template for bytecode-patched launches (see services/coin-bytecode-template.ts).
+// The module/OTW identifiers and every constant below are rewritten per launch, so each
+// placeholder value must be unique in the constant pool. Keep this module in sync with
+// the standard template in services/coin-templates.ts.
+// Build it with `npm run build:coin-template` (needs the Sui CLI) and commit bytecode.json:
+// the service refuses to start without it, and the tests patch it.
+module template::template {
+    use std::option;
+    use std::string::{Self, String};
+    use sui::coin;
+    use sui::object::{Self, UID};
+    use sui::transfer;
+    use sui::url;
+    use sui::tx_context::{Self, TxContext};
+
+    // One-Time Witness type (UPPERCASE module name)
+    struct TEMPLATE has drop {}
+
+    // Immutable profile of the idol behind this coin, frozen at publish
+    struct IdolProfile has key {
+        id: UID,
+        x_handle: String,
+        character: String,
+        setting: String,
+        idol_type: String,
+        description: String,
+        target_goal_mist: u64,
+    }
+
+    const DECIMALS: u8 = 9;
+    const SYMBOL: vector<u8> = b"TMPL";
+    const NAME: vector<u8> = b"Template Coin";
+    const DESCRIPTION: vector<u8> = b"Template Coin Description";
+    const ICON_URL: vector<u8> = b"https://template.invalid/icon.png";
+    const X_HANDLE: vector<u8> = b"@template_handle";
+    const CHARACTER: vector<u8> = b"Template Character";
+    const SETTING: vector<u8> = b"Template Setting";
+    const IDOL_TYPE: vector<u8> = b"template_type";
+    const TARGET_GOAL_MIST: u64 = 987654321987654321;
+
+    // Called once at publish-time; Sui provides the OTW automatically
+    fun init(witness: TEMPLATE, ctx: &mut TxContext) {
+        let (treasury_cap, metadata) = coin::create_currency<TEMPLATE>(
+            witness,
+            DECIMALS,
+            SYMBOL,
+            NAME,
+            DESCRIPTION,
+            option::some(url::new_unsafe_from_bytes(ICON_URL)),
+            ctx
+        );
+
+        // Give deployer the TreasuryCap so they control mint/burn
+        transfer::public_transfer(treasury_cap, tx_context::sender(ctx));
+
+        // Freeze metadata so it's immutable/readable globally (must use the public variant)
+        transfer::public_freeze_object(metadata);
+
+        transfer::freeze_object(IdolProfile {
+            id: object::new(ctx),
+            x_handle: string::utf8(X_HANDLE),
+            character: string::utf8(CHARACTER),
+            setting: string::utf8(SETTING),
+            idol_type: string::utf8(IDOL_TYPE),
+            description: string::utf8(DESCRIPTION),
+            target_goal_mist: TARGET_GOAL_MIST,
+        });
+    }
+}
@@ -1,8 +1,21 @@
 import express from 'express';
 import cors from 'cors';
 import { config as dotenvConfig } from 'dotenv';
+import { timingSafeEqual } from 'crypto';
+import { isValidSuiAddress, normalizeStructTag, normalizeSuiAddress } from '@mysten/sui/utils';
 import { SuiBlockchainService } from './services/sui-blockchain';
-import { IdolCreateRequest, Env, NETWORKS, SuiNetwork } from './types';
+import { coinTemplateFor, listCoinTemplates } from './services/coin-templates';
+import { DeploymentProfiles, loadDeploymentProfiles, missingSettings, profileEnv } from './services/deployment-profiles';
+import { EventIndexer } from './services/event-indexer';
+import { EventIndexStore } from './services/event-index-store';
+import { GraduationMonitor } from './services/graduation-monitor';
+import { LaunchStore } from './services/launch-store';
+import { checkReadiness } from './services/readiness';
+import { LaunchQueue, tokenParams } from './services/launch-queue';
+import { launchGoLiveAt } from './services/launch-schedule';
+import { WebhookNotifier } from './services/webhook-notifier';
+import { FieldError, validateIdolCreateRequest } from './validation';
+import { DeploymentObjectCheck, DeploymentProfile, IdolCreateRequest, ReadinessReport, Env, LaunchJob, NETWORKS, SuiNetwork } from './types';
 
 // Load environment variables from .env file
 dotenvConfig();
@@ -17,7 +30,11 @@ function parseNetwork(v: string | undefined): SuiNetwork {
 }
 
 const env: Env = {
-    SUI_SIGNER_SECRET_KEY: process.env.SUI_SIGNER_SECRET_KEY!,
+    SUI_SIGNER_SECRET_KEY: process.env.SUI_SIGNER_SECRET_KEY,
+    SUI_SIGNER_SCHEME: process.env.SUI_SIGNER_SCHEME,
+    SUI_REMOTE_SIGNER_URL: process.env.SUI_REMOTE_SIGNER_URL,
+    SUI_REMOTE_SIGNER_ADDRESS: process.env.SUI_REMOTE_SIGNER_ADDRESS,
+    SUI_REMOTE_SIGNER_TOKEN: process.env.SUI_REMOTE_SIGNER_TOKEN,
     IAO_CONFIG_ID: process.env.IAO_CONFIG_ID!,
     IAO_REGISTRY_ID: process.env.IAO_REGISTRY_ID!,
     POOLS_CONFIG_ID: process.env.POOLS_CONFIG_ID!,
@@ -26,125 +43,871 @@ const env: Env = {
     BONDING_CURVE_MODULE: process.env.BONDING_CURVE_MODULE,
     BONDING_CURVE_GLOBAL_CONFIG_ID: process.env.BONDING_CURVE_GLOBAL_CONFIG_ID,
     COINX_TYPE: process.env.COINX_TYPE,
+    BONDING_CURVE_BUY_FN: process.env.BONDING_CURVE_BUY_FN,
+    BONDING_CURVE_SELL_FN: process.env.BONDING_CURVE_SELL_FN,
     CLOCK_ID: process.env.CLOCK_ID!,
     FACTORY_PACKAGE_ID: process.env.FACTORY_PACKAGE_ID!,
     PORT: process.env.PORT ?? '3000',
     SUI_NETWORK: parseNetwork(process.env.SUI_NETWORK),
+    SUI_RPC_URL: process.env.SUI_RPC_URL,
+    DEPLOYMENT_PROFILES_PATH: process.env.DEPLOYMENT_PROFILES_PATH,
     CETUS_GLOBAL_CONFIG_ID: process.env.CETUS_GLOBAL_CONFIG_ID!,
-    CETUS_POOLS_ID: process.env.CETUS_POOLS_ID!
+    CETUS_POOLS_ID: process.env.CETUS_POOLS_ID!,
+    LAUNCH_STORE_PATH: process.env.LAUNCH_STORE_PATH,
+    WEBHOOK_SECRET: process.env.WEBHOOK_SECRET,
+    COIN_TEMPLATE_BYTECODE_PATH: process.env.COIN_TEMPLATE_BYTECODE_PATH,
+    READ_CACHE_TTL_MS: process.env.READ_CACHE_TTL_MS,
+    GAS_SPONSOR_ENABLED: process.env.GAS_SPONSOR_ENABLED,
+    GAS_SPONSOR_MAX_BUDGET_MIST: process.env.GAS_SPONSOR_MAX_BUDGET_MIST,
+    GAS_SPONSOR_DAILY_LIMIT_MIST: process.env.GAS_SPONSOR_DAILY_LIMIT_MIST,
+    GAS_SPONSOR_CREATOR_DAILY_LIMIT_MIST: process.env.GAS_SPONSOR_CREATOR_DAILY_LIMIT_MIST,
+    GAS_SPONSOR_RESERVATION_TTL_MS: process.env.GAS_SPONSOR_RESERVATION_TTL_MS,
+    GAS_SPEND_LEDGER_PATH: process.env.GAS_SPEND_LEDGER_PATH,
+    GAS_POOL_SIZE: process.env.GAS_POOL_SIZE,
+    GAS_POOL_COIN_MIST: process.env.GAS_POOL_COIN_MIST,
+    GAS_POOL_MIN_COIN_MIST: process.env.GAS_POOL_MIN_COIN_MIST,
+    GAS_POOL_LEASE_TIMEOUT_MS: process.env.GAS_POOL_LEASE_TIMEOUT_MS,
+    INITIAL_LIQUIDITY_MIN_MIST: process.env.INITIAL_LIQUIDITY_MIN_MIST,
+    INITIAL_LIQUIDITY_MAX_MIST: process.env.INITIAL_LIQUIDITY_MAX_MIST,
+    INITIAL_LIQUIDITY_DEFAULT_MIST: process.env.INITIAL_LIQUIDITY_DEFAULT_MIST,
+    INITIAL_LIQUIDITY_GOAL_BPS: process.env.INITIAL_LIQUIDITY_GOAL_BPS,
+    GAS_BUDGET_MARGIN_BPS: process.env.GAS_BUDGET_MARGIN_BPS,
+    MOVE_ABORT_CATALOG_PATH: process.env.MOVE_ABORT_CATALOG_PATH,
+    PREVIEW_TREASURY_CAP_ID: process.env.PREVIEW_TREASURY_CAP_ID,
+    PACKAGE_UPGRADE_POLICY: process.env.PACKAGE_UPGRADE_POLICY,
+    ADMIN_API_TOKEN: process.env.ADMIN_API_TOKEN,
+    INDEXER_ENABLED: process.env.INDEXER_ENABLED,
+    INDEXER_STORE_PATH: process.env.INDEXER_STORE_PATH,
+    INDEXER_POLL_MS: process.env.INDEXER_POLL_MS,
+    INDEXER_MAX_TRADES_PER_COIN: process.env.INDEXER_MAX_TRADES_PER_COIN,
+    INDEXER_EVENT_MODULES: process.env.INDEXER_EVENT_MODULES,
+    GRADUATION_MONITOR_ENABLED: process.env.GRADUATION_MONITOR_ENABLED,
+    GRADUATION_POLL_MS: process.env.GRADUATION_POLL_MS,
+    GRADUATION_RAISED_FIELD: process.env.GRADUATION_RAISED_FIELD,
+    GRADUATION_MIGRATE_TARGET: process.env.GRADUATION_MIGRATE_TARGET,
+    GRADUATION_MIGRATE_ARGS: process.env.GRADUATION_MIGRATE_ARGS,
+    GRADUATION_MAX_ATTEMPTS: process.env.GRADUATION_MAX_ATTEMPTS,
+    GRADUATION_RETRY_DELAY_MS: process.env.GRADUATION_RETRY_DELAY_MS,
+    READY_MIN_SIGNER_BALANCE_MIST: process.env.READY_MIN_SIGNER_BALANCE_MIST,
+    FACTORY_ALLOWLIST_CONFIG_ID: process.env.FACTORY_ALLOWLIST_CONFIG_ID,
 };
 
-// Validate required environment variables
-const requiredEnv = [
-    'SUI_SIGNER_SECRET_KEY', 'IAO_CONFIG_ID', 'IAO_REGISTRY_ID',
-    'POOLS_CONFIG_ID', 'POOLS_REGISTRY_ID', 'CLOCK_ID', 'FACTORY_PACKAGE_ID', 'CETUS_GLOBAL_CONFIG_ID', 'CETUS_POOLS_ID'
-];
-for (const key of requiredEnv) {
-    if (!env[key as keyof Env]) {
-        console.error(`Error: Environment variable ${key} is not set. Please check your .env file.`);
+// Everything one network needs: its service, launch jobs, event index and graduation monitor
+interface Deployment {
+    network: SuiNetwork;
+    env: Env;
+    expectedTypes?: DeploymentProfile['expectedTypes'];
+    objectChecks?: DeploymentObjectCheck[]; // from the startup check; unset when the fullnode couldn't be reached
+    readiness?: ReadinessReport; // latest startup self-check or GET /ready
+    suiBlockchainService: SuiBlockchainService;
+    launchStore: LaunchStore;
+    launchQueue: LaunchQueue;
+    eventIndex: EventIndexStore;
+    eventIndexer?: EventIndexer;
+    graduationMonitor: GraduationMonitor;
+}
+
+function createDeployment(networkEnv: Env, expectedTypes?: DeploymentProfile['expectedTypes']): Deployment {
+    const suiBlockchainService = new SuiBlockchainService(networkEnv);
+    const launchStore = new LaunchStore(networkEnv.LAUNCH_STORE_PATH || 'data/launches.json');
+    // Webhooks are always signed, so without WEBHOOK_SECRET there are none (callbackUrl is refused)
+    const notifier = networkEnv.WEBHOOK_SECRET ? new WebhookNotifier(networkEnv.WEBHOOK_SECRET) : undefined;
+    const launchQueue = new LaunchQueue(launchStore, suiBlockchainService, notifier);
+
+    // Follow launch/trade/graduation events into a local index (resumes from the stored cursors)
+    const eventIndex = new EventIndexStore(
+        networkEnv.INDEXER_STORE_PATH || 'data/index.json',
+        Number(networkEnv.INDEXER_MAX_TRADES_PER_COIN ?? 1000),
+    );
+    const eventIndexer =
+        networkEnv.INDEXER_ENABLED === 'false' ? undefined : suiBlockchainService.createEventIndexer(eventIndex, networkEnv);
+
+    // Track registered IAOs toward targetGoalSui and migrate them to Cetus once they reach it
+    const graduationMonitor = new GraduationMonitor(
+        launchStore,
+        suiBlockchainService,
+        {
+            pollMs: Number(networkEnv.GRADUATION_POLL_MS ?? 60_000),
+            maxAttempts: Number(networkEnv.GRADUATION_MAX_ATTEMPTS ?? 5),
+            retryDelayMs: Number(networkEnv.GRADUATION_RETRY_DELAY_MS ?? 60_000),
+        },
+        (coinType) => (eventIndexer ? eventIndex.getIdol(normalizeStructTag(coinType))?.graduated : undefined),
+    );
+    return {
+        network: networkEnv.SUI_NETWORK,
+        env: networkEnv,
+        expectedTypes,
+        suiBlockchainService,
+        launchStore,
+        launchQueue,
+        eventIndex,
+        eventIndexer,
+        graduationMonitor,
+    };
+}
+
+// With DEPLOYMENT_PROFILES_PATH every profile is a network; otherwise the flat env is the SUI_NETWORK deployment
+let profiles: DeploymentProfiles | undefined;
+let networkEnvs: Array<{ env: Env; expectedTypes?: DeploymentProfile['expectedTypes'] }>;
+try {
+    profiles = env.DEPLOYMENT_PROFILES_PATH ? loadDeploymentProfiles(env.DEPLOYMENT_PROFILES_PATH) : undefined;
+    networkEnvs = profiles
+        ? Object.entries(profiles).map(([network, profile]) => ({
+            env: profileEnv(env, network as SuiNetwork, profile!),
+            expectedTypes: profile!.expectedTypes,
+        }))
+        : [{ env }];
+} catch (e: any) {
+    console.error(`Error: ${e.message}`);
+    process.exit(1);
+}
+
+// Validate required settings of every network
+for (const { env: networkEnv } of networkEnvs) {
+    for (const key of missingSettings(networkEnv)) {
+        const where = profiles ? `the ${networkEnv.SUI_NETWORK} profile in ${env.DEPLOYMENT_PROFILES_PATH}` : 'your .env file';
+        console.error(`Error: ${key} is not set for ${networkEnv.SUI_NETWORK}. Please check ${where}.`);
+        process.exit(1);
+    }
+    const minBalance = networkEnv.READY_MIN_SIGNER_BALANCE_MIST;
+    if (minBalance && !/^\d+$/.test(minBalance)) {
+        console.error(`Error: READY_MIN_SIGNER_BALANCE_MIST for ${networkEnv.SUI_NETWORK} must be an integer amount of MIST.`);
         process.exit(1);
     }
 }
 
-const suiBlockchainService = new SuiBlockchainService(env);
+const deployments = new Map<SuiNetwork, Deployment>(
+    networkEnvs.map(({ env: networkEnv, expectedTypes }) => [networkEnv.SUI_NETWORK, createDeployment(networkEnv, expectedTypes)]),
+);
+// Requests that name no network go to SUI_NETWORK (or the first profile when it has none)
+const defaultDeployment = deployments.get(env.SUI_NETWORK) ?? deployments.values().next().value!;
 
-// Health check endpoint
+// Liveness only; GET /ready checks the chain wiring
 app.get('/health', (req, res) => {
     res.status(200).json({ status: 'ok', message: 'SUI Blockchain Service is running' });
 });
 
+// Requests pick a network with a /<network> path prefix or the X-Sui-Network header; the default network otherwise
+function useDeployment(prefixed?: Deployment) {
+    return (req: express.Request, res: express.Response, next: express.NextFunction) => {
+        const requested = req.get('X-Sui-Network');
+        if (prefixed && requested && requested !== prefixed.network) {
+            return res.status(400).json({ error: `X-Sui-Network "${requested}" contradicts the /${prefixed.network} path` });
+        }
+        const deployment = prefixed ?? (requested ? deployments.get(requested as SuiNetwork) : defaultDeployment);
+        if (!deployment) {
+            return res.status(400).json({
+                error: `Network "${requested}" is not configured (available: ${[...deployments.keys()].join(', ')})`,
+            });
+        }
+        res.locals.deployment = deployment;
+        res.set('X-Sui-Network', deployment.network);
+        next();
+    };
+}
+
+function deploymentOf(res: express.Response): Deployment {
+    return res.locals.deployment as Deployment;
+}
+
+// Network-scoped routes, mounted once per network prefix and once at the root
+const api = express.Router();
+
+// Configured networks with their RPC, last readiness result and the startup object check
+app.get('/networks', (req, res) => {
+    res.status(200).json({
+        default: defaultDeployment.network,
+        networks: [...deployments.values()].map((d) => ({
+            network: d.network,
+            rpcUrl: d.env.SUI_RPC_URL,
+            ready: d.readiness?.ready,
+            objects: d.objectChecks,
+        })),
+    });
+});
+
+// Readiness of the request's network: Sui CLI, fullnode, chain identifier, configured objects,
+// signer balance and factory allowlist. 503 when any check fails; `warn` checks don't count.
+api.get('/ready', async (req, res) => {
+    const deployment = deploymentOf(res);
+    deployment.readiness = await runReadiness(deployment);
+    res.status(deployment.readiness.ready ? 200 : 503).json(deployment.readiness);
+});
+
+// Bonding-curve read cache counters (hits, misses, coalesced in-flight requests)
+api.get('/cache/stats', (req, res) => {
+    const { suiBlockchainService } = deploymentOf(res);
+    res.status(200).json(suiBlockchainService.readCacheStats());
+});
+
+// Drop cached bonding-curve reads. Body: { coinType?: string } (all coins when omitted)
+api.post('/cache/invalidate', (req, res) => {
+    const { suiBlockchainService } = deploymentOf(res);
+    const { coinType } = (req.body ?? {}) as { coinType?: string };
+    const dropped = suiBlockchainService.invalidateReadCache(coinType || undefined);
+    res.status(200).json({ dropped });
+});
+
 // Read-only: get marginal price from bonding curve for a given idol coin type
-// Usage: GET /marginal-price?coinType=<PACKAGE::module::STRUCT>
-app.get('/marginal-price', async (req, res) => {
+// Usage: GET /marginal-price?coinType=<PACKAGE::module::STRUCT>[&raw=1]
+// `price` is quote coins per whole idol coin; raw=1 adds the undecoded devInspect returnValues
+api.get('/marginal-price', async (req, res) => {
+    const { suiBlockchainService } = deploymentOf(res);
     try {
         const coinType = (req.query.coinType as string) || '';
         if (!coinType) return res.status(400).json({ error: 'Missing coinType query param' });
-        const { rawReturn } = await suiBlockchainService.getMarginalPriceForIdol(coinType);
-        res.status(200).json({ coinType, rawReturn });
+        const { rawReturn, ...price } = await suiBlockchainService.getMarginalPriceForIdol(coinType);
+        res.status(200).json({ coinType, ...price, ...(req.query.raw === '1' ? { rawReturn } : {}) });
     } catch (e: any) {
-        res.status(500).json({ error: e.message || String(e) });
+        sendError(res, e);
     }
 });
 
 // Read-only: get current supply from bonding curve for a given idol coin type
-// Usage: GET /current-supply?coinType=<PACKAGE::module::STRUCT>
-app.get('/current-supply', async (req, res) => {
+// Usage: GET /current-supply?coinType=<PACKAGE::module::STRUCT>[&raw=1]
+api.get('/current-supply', async (req, res) => {
+    const { suiBlockchainService } = deploymentOf(res);
     try {
         const coinType = (req.query.coinType as string) || '';
         if (!coinType) return res.status(400).json({ error: 'Missing coinType query param' });
-        const { rawReturn } = await suiBlockchainService.getCurrentSupplyForIdol(coinType);
-        res.status(200).json({ coinType, rawReturn });
+        const { rawReturn, ...supply } = await suiBlockchainService.getCurrentSupplyForIdol(coinType);
+        res.status(200).json({ coinType, ...supply, ...(req.query.raw === '1' ? { rawReturn } : {}) });
+    } catch (e: any) {
+        sendError(res, e);
+    }
+});
+
+// Read-only: marginal price + current supply for many idol coin types in one devInspect.
+// Body: { coinTypes: string[] } (max 100). Per-coin failures come back as { coinType, error }.
+api.post('/market/snapshot', async (req, res) => {
+    const { suiBlockchainService } = deploymentOf(res);
+    const { coinTypes } = (req.body ?? {}) as { coinTypes?: unknown };
+    if (!Array.isArray(coinTypes) || !coinTypes.length || !coinTypes.every((c) => typeof c === 'string' && c)) {
+        return res.status(400).json({ error: 'coinTypes must be a non-empty array of coin type strings' });
+    }
+    if (coinTypes.length > 100) {
+        return res.status(400).json({ error: 'At most 100 coinTypes per snapshot' });
+    }
+    try {
+        const results = await suiBlockchainService.getMarketSnapshot(coinTypes as string[]);
+        res.status(200).json({ results });
     } catch (e: any) {
         res.status(500).json({ error: e.message || String(e) });
     }
 });
 
-// Endpoint to launch an IDOL on-chain
-app.post('/launch-idol', async (req, res) => {
-    const { idolId, createParams } = req.body as { idolId: number; createParams: IdolCreateRequest };
+// Read-only: simulate a bonding-curve trade without executing it
+// Usage: GET /quote/buy?coinType=<T>&amount=<SUI in>   GET /quote/sell?coinType=<T>&amount=<tokens in>
+// Optional: slippageBps (for minAmountOut), feeRateBps (defaults to the launch's), sender (holder for sells)
+api.get('/quote/:side', async (req, res) => {
+    const { suiBlockchainService, launchStore } = deploymentOf(res);
+    const side = req.params.side;
+    if (side !== 'buy' && side !== 'sell') return res.status(404).json({ error: 'Unknown quote side' });
+
+    const coinType = (req.query.coinType as string) || '';
+    const amount = (req.query.amount as string) || '';
+    if (!coinType || !amount) return res.status(400).json({ error: 'Missing coinType or amount query param' });
+    if (!/^\d+(\.\d+)?$/.test(amount)) return res.status(400).json({ error: 'amount must be a decimal string' });
+
+    const slippageBps = req.query.slippageBps !== undefined ? Number(req.query.slippageBps) : undefined;
+    if (slippageBps !== undefined && (!Number.isInteger(slippageBps) || slippageBps < 0 || slippageBps > 10_000)) {
+        return res.status(400).json({ error: 'slippageBps must be an integer in 0..10000' });
+    }
+    const feeRateBps =
+        req.query.feeRateBps !== undefined
+            ? Number(req.query.feeRateBps)
+            : launchStore.findByCoinType(coinType)?.createParams.feeRateBps;
+    if (feeRateBps !== undefined && (!Number.isInteger(feeRateBps) || feeRateBps < 0 || feeRateBps > 10_000)) {
+        return res.status(400).json({ error: 'feeRateBps must be an integer in 0..10000' });
+    }
+
+    try {
+        const quote = await suiBlockchainService.quoteTrade(side, coinType, amount, {
+            sender: (req.query.sender as string) || undefined,
+            feeRateBps,
+            slippageBps,
+        });
+        res.status(200).json(quote);
+    } catch (e: any) {
+        sendError(res, e);
+    }
+});
+
+// Shared body checks for the launch endpoints; returns per-field errors (empty when valid)
+function validateLaunchBody(body: any, { suiBlockchainService, env: networkEnv }: Deployment): FieldError[] {
+    const { idolId, createParams, callbackUrl } = (body ?? {}) as {
+        idolId?: number;
+        createParams?: IdolCreateRequest;
+        callbackUrl?: string;
+    };
+    // Reject bad input before any chain work (Move build, publish) starts
+    const fieldErrors = validateIdolCreateRequest(createParams, {
+        initialLiquidityMist: suiBlockchainService.initialLiquidityBounds(),
+    });
+    if (!Number.isSafeInteger(idolId) || idolId! <= 0) {
+        fieldErrors.unshift({ field: 'idolId', message: 'must be a positive integer' });
+    }
+    if (callbackUrl !== undefined && !networkEnv.WEBHOOK_SECRET) {
+        // Receivers could not tell our deliveries from anyone else's without the HMAC signature
+        fieldErrors.push({ field: 'callbackUrl', message: 'is not accepted: this server has no WEBHOOK_SECRET to sign webhooks' });
+    } else if (callbackUrl !== undefined && !/^https?:\/\//.test(String(callbackUrl))) {
+        fieldErrors.push({ field: 'callbackUrl', message: 'must be an http(s) URL' });
+    }
+    return fieldErrors;
+}
+
+// Typed Move aborts answer with the catalog's HTTP status and a stable `code`; anything else is a 500
+function sendError(res: express.Response, e: any, extra: Record<string, unknown> = {}) {
+    const abort = e?.moveAbort;
+    if (abort) {
+        return res.status(abort.status).json({ ...extra, error: e.message, code: abort.errorCode, abort });
+    }
+    return res.status(500).json({ ...extra, error: e?.message || String(e) });
+}
+
+// Ops-only routes: Bearer ADMIN_API_TOKEN; refused outright when no token is configured
+function requireAdmin(req: express.Request, res: express.Response, next: express.NextFunction) {
+    if (!env.ADMIN_API_TOKEN) return res.status(403).json({ error: 'Set ADMIN_API_TOKEN to enable this endpoint' });
+    const given = Buffer.from(req.get('Authorization')?.replace(/^Bearer /, '') ?? '');
+    const expected = Buffer.from(env.ADMIN_API_TOKEN);
+    if (given.length !== expected.length || !timingSafeEqual(given, expected)) {
+        return res.status(401).json({ error: 'Invalid or missing admin token' });
+    }
+    next();
+}
+
+// ISO launch instant for createParams when it is still in the future; undefined launches right away
+function scheduledAtFor(createParams: IdolCreateRequest): string | undefined {
+    if (!coinTemplateFor(createParams).launchesIao) return undefined; // nothing to go live
+    const goLive = launchGoLiveAt(createParams);
+    return goLive.getTime() > Date.now() ? goLive.toISOString() : undefined;
+}
+
+// 402 with the shortfall when the payer can't cover initial liquidity + gas; false if the check passed
+function rejectUnfunded(res: express.Response, error: any): boolean {
+    if (!error?.insufficientFunds) return false;
+    res.status(402).json({
+        error: error.message,
+        address: error.address,
+        requiredMist: error.requiredMist,
+        balanceMist: error.balanceMist,
+    });
+    return true;
+}
+
+// Endpoint to launch an IDOL on-chain.
+// Returns 202 with a jobId immediately; poll GET /launches/:id or pass `callbackUrl` for a webhook.
+// `?wait=1` keeps the old blocking behaviour and answers with the final job.
+// 402 when the server signer can't cover the initial liquidity plus estimated gas.
+api.post('/launch-idol', async (req, res) => {
+    const { suiBlockchainService, launchStore, launchQueue } = deploymentOf(res);
+    const { idolId, createParams, callbackUrl } = req.body as {
+        idolId: number;
+        createParams: IdolCreateRequest;
+        callbackUrl?: string;
+    };
 
     if (!idolId || !createParams) {
         return res.status(400).json({ error: 'Missing idolId or createParams in request body.' });
     }
 
+    const fieldErrors = validateLaunchBody(req.body, deploymentOf(res));
+    if (fieldErrors.length) {
+        return res.status(400).json({ error: 'Invalid launch request', fields: fieldErrors });
+    }
+
     // --- ENHANCED LOGGING ---
     console.log("======================================================");
     console.log(`[DO Droplet] Received request to launch idol ID: ${idolId}`);
     console.log(`[DO Droplet] Ticker: ${createParams.ticker}, Name: ${createParams.name}`);
     console.log("------------------------------------------------------");
 
-    try {
-        // Step 1: Publish Token Package
-        console.log(`[DO Droplet] STEP 1: Publishing token package for idol ID: ${idolId}...`);
-        const tokenPackageResult = await suiBlockchainService.publishIdolTokenPackage({
-            ticker: createParams.ticker,
-            name: createParams.name,
-            description: createParams.description,
-            decimals: createParams.decimals,
-            imageUrl: createParams.imageUrl || "https://idol.fun/default-icon.png",
+    // Retries with the same Idempotency-Key (or the same idolId) reuse the original launch
+    // instead of publishing a second coin package.
+    const idempotencyKey = req.get('Idempotency-Key') || LaunchStore.keyForIdol(idolId);
+    let existing = launchStore.findForRequest(idolId, idempotencyKey);
+    if (!existing) {
+        try {
+            await suiBlockchainService.checkLaunchFunds(createParams);
+        } catch (error: any) {
+            if (rejectUnfunded(res, error)) return;
+            return res.status(500).json({ error: 'Failed to check launch funds', details: error.message });
+        }
+        // A concurrent retry may have created the launch while funds were checked: attach to it
+        existing = launchStore.findForRequest(idolId, idempotencyKey);
+    }
+    if (existing && existing.idolId !== idolId) {
+        return res.status(422).json({
+            error: `Idempotency-Key "${idempotencyKey}" was already used for idol ID ${existing.idolId}.`,
         });
-        console.log(`[DO Droplet] SUCCESS: Token package published for idol ID: ${idolId}. Package ID: ${tokenPackageResult.packageId}`);
-
-        // Step 2: Register Asset with IAO Protocol via Factory
-        console.log(`[DO Droplet] STEP 2: Registering asset with IAO protocol for idol ID: ${idolId}...`);
-        const registerAssetResult = await suiBlockchainService.registerAsset(
-            {
-                packageId: tokenPackageResult.packageId,
-                treasuryCapId: tokenPackageResult.treasuryCapId,
-                moduleName: tokenPackageResult.moduleName,
-                structName: tokenPackageResult.structName,
-                coinType: tokenPackageResult.coinType,
-            },
-            createParams
-        );
-        console.log(`[DO Droplet] SUCCESS: Asset registered for idol ID: ${idolId}. Pool ID: ${registerAssetResult.poolId}`);
-        console.log("======================================================");
-
-        res.status(200).json({
-            packageId: tokenPackageResult.packageId,
-            treasuryCapId: tokenPackageResult.treasuryCapId,
-            coinMetadataId: tokenPackageResult.coinMetadataId,
-            moduleName: tokenPackageResult.moduleName,
-            structName: tokenPackageResult.structName,
-            coinType: tokenPackageResult.coinType,
-            poolId: registerAssetResult.poolId,
-            digest: registerAssetResult.digest,
-            lpCapId: registerAssetResult.lpCapId,
-            creatorTokensId: registerAssetResult.creatorTokensId,
+    }
+    if (existing && existing.signerMode && existing.signerMode !== 'server') {
+        return res.status(409).json({
+            ...LaunchStore.view(existing),
+            error: `This idol is being launched in ${existing.signerMode} mode; use /launch-idol/unsigned.`,
         });
+    }
+
+    // The key of a cancelled launch stays taken: replaying it must not start the launch again
+    if (existing?.status === 'cancelled') {
+        return res.status(409).json({ ...LaunchStore.view(existing), error: 'This launch was cancelled.' });
+    }
+
+    let launch: LaunchJob;
+    let running: Promise<LaunchJob>;
+    if (existing) {
+        console.log(`[DO Droplet] Replaying launch job ${existing.id} (${existing.status}) for key ${idempotencyKey}`);
+        res.set('Idempotent-Replayed', 'true');
+        if (existing.status === 'registered' || existing.status === 'completed') {
+            return res.status(200).json(LaunchStore.view(existing));
+        }
+        launch = existing;
+        // Failed jobs resume at the failed step; queued/published jobs attach to the in-flight run
+        running = existing.status === 'failed' ? launchQueue.retry(existing.id) : launchQueue.run(existing.id);
+    } else {
+        // Persist the launch first so a crash mid-pipeline can be resumed instead of orphaning a TreasuryCap
+        const scheduledAt = scheduledAtFor(createParams);
+        launch = launchStore.create(idolId, createParams, { callbackUrl, idempotencyKey, scheduledAt });
+        console.log(`[DO Droplet] Created launch job ${launch.id} for idol ID: ${idolId}`);
+        running = launchQueue.run(launch.id);
+    }
+
+    if (req.query.wait !== '1') {
+        running.catch((error) => console.error(`[DO Droplet] FATAL ERROR in launch job ${launch.id}:`, error));
+        return res.status(202).json(LaunchStore.view(launchStore.get(launch.id)!));
+    }
 
+    try {
+        const job = await running;
+        if (job.status === 'failed') {
+            console.error(`[DO Droplet] FATAL ERROR launching idol ID: ${idolId} at ${job.error?.step}:`, job.error?.message);
+            return res.status(job.error?.abort?.status ?? 500).json({
+                ...LaunchStore.view(job),
+                error: 'Failed to launch idol on SUI blockchain',
+                code: job.error?.abort?.errorCode,
+                details: job.error?.message,
+            });
+        }
+        if (job.status === 'cancelled') {
+            return res.status(409).json({ ...LaunchStore.view(job), error: 'This launch was cancelled.' });
+        }
+        if (job.status === 'published' && job.scheduledAt) {
+            // Published ahead of time; launch_idol fires at scheduledAt
+            return res.status(202).json(LaunchStore.view(job));
+        }
+        console.log(`[DO Droplet] SUCCESS: Idol ID: ${idolId} launched. Pool ID: ${job.register?.poolId}`);
+        res.status(200).json(LaunchStore.view(job));
     } catch (error: any) {
         console.error(`[DO Droplet] FATAL ERROR launching idol ID: ${idolId}:`, error);
-        console.log("======================================================");
         res.status(500).json({
             error: 'Failed to launch idol on SUI blockchain',
             details: error.message,
+            jobId: launch.id,
+        });
+    }
+});
+
+// Coin templates a launch can pick with createParams.coinTemplate (standard when omitted)
+api.get('/coin-templates', (req, res) => {
+    res.status(200).json(listCoinTemplates());
+});
+
+// Dry-run a server-signed launch without spending gas. Body: { createParams }.
+// Reports the compiled package, publish dry run and launch_idol preflight with gas estimates,
+// created object types and decoded aborts; nothing is persisted, signed or executed.
+api.post('/launch-idol/preview', async (req, res) => {
+    const { suiBlockchainService } = deploymentOf(res);
+    const { createParams } = (req.body ?? {}) as { createParams?: IdolCreateRequest };
+    const fieldErrors = validateIdolCreateRequest(createParams, {
+        initialLiquidityMist: suiBlockchainService.initialLiquidityBounds(),
+    });
+    if (fieldErrors.length) {
+        return res.status(400).json({ error: 'Invalid launch request', fields: fieldErrors });
+    }
+
+    try {
+        const preview = await suiBlockchainService.previewLaunch(tokenParams(createParams!), createParams!);
+        res.status(200).json(preview);
+    } catch (e: any) {
+        sendError(res, e);
+    }
+});
+
+// Wallet-signed launch: the creator signs with their own wallet and owns the UpgradeCap,
+// TreasuryCap and launch outputs. Body: { idolId, createParams, sender, callbackUrl?, sponsored? }.
+// With `sponsored: true` the server address pays gas (within the sponsor's spend limits; only
+// the daily total is enforced for certain, as `sender` is not authenticated for the per-creator one).
+// Answers with the job; `pendingTxBytes` (base64 TransactionData) is the publish transaction
+// to sign and POST to /launches/:id/signed, which answers with the launch_idol bytes next.
+// 402 when `sender` can't cover the initial liquidity (plus gas unless sponsored).
+api.post('/launch-idol/unsigned', async (req, res) => {
+    const { suiBlockchainService, launchStore, launchQueue } = deploymentOf(res);
+    const { idolId, createParams, callbackUrl, sender, sponsored } = req.body as {
+        idolId: number;
+        createParams: IdolCreateRequest;
+        callbackUrl?: string;
+        sender?: string;
+        sponsored?: boolean;
+    };
+    const signerMode = sponsored === true ? 'sponsored' : 'wallet';
+
+    const fieldErrors = validateLaunchBody(req.body, deploymentOf(res));
+    if (typeof sender !== 'string' || !isValidSuiAddress(sender)) {
+        fieldErrors.push({ field: 'sender', message: 'must be a Sui address' });
+    }
+    if (fieldErrors.length) {
+        return res.status(400).json({ error: 'Invalid launch request', fields: fieldErrors });
+    }
+
+    const idempotencyKey = req.get('Idempotency-Key') || LaunchStore.keyForIdol(idolId);
+    let job = launchStore.findForRequest(idolId, idempotencyKey);
+    if (!job) {
+        try {
+            await suiBlockchainService.checkLaunchFunds(createParams, sender, { sponsored: signerMode === 'sponsored' });
+        } catch (e: any) {
+            if (rejectUnfunded(res, e)) return;
+            return sendError(res, e);
+        }
+        // A concurrent retry may have created the launch while funds were checked: attach to it
+        job = launchStore.findForRequest(idolId, idempotencyKey);
+    }
+    if (job && (job.idolId !== idolId || job.signerMode !== signerMode || job.sender !== sender)) {
+        return res.status(422).json({
+            error: `Idempotency-Key "${idempotencyKey}" was already used for a different launch.`,
+        });
+    }
+
+    if (job?.status === 'cancelled') {
+        return res.status(409).json({ ...LaunchStore.view(job), error: 'This launch was cancelled.' });
+    }
+
+    try {
+        if (job) {
+            res.set('Idempotent-Replayed', 'true');
+            // Already waiting for a signature or done: hand back the same job
+            if (job.pendingTx || job.status === 'registered' || job.status === 'completed') {
+                return res.status(200).json(LaunchStore.view(job));
+            }
+            job = await (job.status === 'failed' ? launchQueue.retry(job.id) : launchQueue.run(job.id));
+        } else {
+            job = launchStore.create(idolId, createParams, {
+                callbackUrl,
+                idempotencyKey,
+                signerMode,
+                sender,
+                scheduledAt: scheduledAtFor(createParams),
+            });
+            console.log(`[DO Droplet] Created ${signerMode} launch job ${job.id} for idol ID: ${idolId} (sender ${sender})`);
+            job = await launchQueue.run(job.id);
+        }
+        res.status(job.status === 'failed' ? job.error?.abort?.status ?? 500 : 200).json(LaunchStore.view(job));
+    } catch (e: any) {
+        if (rejectUnfunded(res, e)) return;
+        sendError(res, e);
+    }
+});
+
+// Submit the creator's signature for a wallet launch's pending transaction.
+// Body: { signature: string | string[] }. After publish lands, answers with the launch_idol bytes.
+api.post('/launches/:id/signed', async (req, res) => {
+    const { launchStore, launchQueue } = deploymentOf(res);
+    const existing = launchStore.get(req.params.id);
+    if (!existing) return res.status(404).json({ error: 'Launch job not found' });
+
+    const { signature } = (req.body ?? {}) as { signature?: string | string[] };
+    const valid =
+        typeof signature === 'string' || (Array.isArray(signature) && signature.every((s) => typeof s === 'string'));
+    if (!valid || !signature!.length) {
+        return res.status(400).json({ error: 'signature must be a base64 string or an array of them' });
+    }
+    if (!existing.pendingTx) {
+        return res.status(409).json({
+            ...LaunchStore.view(existing),
+            error: 'No transaction is awaiting a signature for this launch',
+        });
+    }
+
+    try {
+        const job = await launchQueue.submitSigned(existing.id, signature!);
+        res.status(job.status === 'failed' ? job.error?.abort?.status ?? 500 : 200).json(LaunchStore.view(job));
+    } catch (e: any) {
+        // Rejected submissions (bad signature, stale bytes) leave the pending transaction in place
+        if (e?.rejected) return res.status(400).json({ error: e.message || String(e) });
+        sendError(res, e);
+    }
+});
+
+// Gas sponsor spend for today (optionally for one creator): GET /gas-sponsor/usage[?sender=0x...]
+api.get('/gas-sponsor/usage', (req, res) => {
+    const { suiBlockchainService } = deploymentOf(res);
+    const usage = suiBlockchainService.gasSponsorUsage((req.query.sender as string) || undefined);
+    if (!usage) return res.status(404).json({ error: 'Gas sponsorship is not enabled' });
+    res.status(200).json(usage);
+});
+
+// Server signer's gas coin pool: idle/leased coins and refill state
+api.get('/gas-pool', (req, res) => {
+    const { suiBlockchainService } = deploymentOf(res);
+    const stats = suiBlockchainService.gasPoolStats();
+    if (!stats) return res.status(404).json({ error: 'Gas coin pool is disabled' });
+    res.status(200).json(stats);
+});
+
+// Launches whose launch_idol is still ahead of them, soonest first
+api.get('/launches/scheduled', (req, res) => {
+    const { launchQueue } = deploymentOf(res);
+    res.status(200).json({ launches: launchQueue.listScheduled().map((job) => LaunchStore.view(job)) });
+});
+
+// Launch job status: current step, digests and created object IDs
+api.get('/launches/:id', (req, res) => {
+    const { launchStore } = deploymentOf(res);
+    const job = launchStore.get(req.params.id);
+    if (!job) return res.status(404).json({ error: 'Launch job not found' });
+    res.status(200).json(LaunchStore.view(job));
+});
+
+// Resume a failed launch at the step where it stopped (reuses an already-published package).
+// Answers 202 like /launch-idol; progress is reported through GET /launches/:id.
+api.post('/launches/:id/retry', (req, res) => {
+    const { launchStore, launchQueue } = deploymentOf(res);
+    const existing = launchStore.get(req.params.id);
+    if (!existing) return res.status(404).json({ error: 'Launch job not found' });
+    if (existing.status === 'registered' || existing.status === 'completed') {
+        return res.status(200).json(LaunchStore.view(existing));
+    }
+    if (existing.status === 'cancelled') {
+        return res.status(409).json({ ...LaunchStore.view(existing), error: 'This launch was cancelled.' });
+    }
+
+    try {
+        launchQueue.retry(existing.id).catch((error) => {
+            console.error(`[DO Droplet] FATAL ERROR retrying launch job ${existing.id}:`, error);
         });
+        res.status(202).json(LaunchStore.view(launchStore.get(existing.id)!));
+    } catch (e: any) {
+        res.status(500).json({ error: e.message || String(e) });
+    }
+});
+
+// Move a launch that hasn't gone live. Body: { launchDate, launchTime, countdownMinutes?, launchTimeZone? },
+// same meaning as in createParams; a time already past launches right away.
+api.post('/launches/:id/reschedule', (req, res) => {
+    const { launchStore, launchQueue } = deploymentOf(res);
+    const existing = launchStore.get(req.params.id);
+    if (!existing) return res.status(404).json({ error: 'Launch job not found' });
+
+    const { launchDate, launchTime, countdownMinutes, launchTimeZone } = (req.body ?? {}) as Partial<IdolCreateRequest>;
+    const createParams: IdolCreateRequest = {
+        ...existing.createParams,
+        launchDate: launchDate!,
+        launchTime: launchTime!,
+        countdownMinutes: countdownMinutes ?? existing.createParams.countdownMinutes,
+        launchTimeZone: launchTimeZone ?? existing.createParams.launchTimeZone,
+    };
+    const fieldErrors = validateIdolCreateRequest(createParams).filter((e) =>
+        ['launchDate', 'launchTime', 'countdownMinutes', 'launchTimeZone'].some((f) => e.field === `createParams.${f}`),
+    );
+    if (fieldErrors.length) {
+        return res.status(400).json({ error: 'Invalid schedule', fields: fieldErrors });
+    }
+
+    try {
+        const job = launchQueue.reschedule(existing.id, createParams, launchGoLiveAt(createParams));
+        res.status(200).json(LaunchStore.view(job));
+    } catch (e: any) {
+        res.status(e?.conflict ? 409 : 500).json({ error: e.message || String(e) });
+    }
+});
+
+// Cancel a launch before launch_idol goes out. A package already published ahead of time
+// stays on chain with its TreasuryCap held by the publisher.
+api.post('/launches/:id/cancel', (req, res) => {
+    const { launchStore, launchQueue } = deploymentOf(res);
+    const existing = launchStore.get(req.params.id);
+    if (!existing) return res.status(404).json({ error: 'Launch job not found' });
+    if (existing.status === 'cancelled') return res.status(200).json(LaunchStore.view(existing));
+
+    try {
+        res.status(200).json(LaunchStore.view(launchQueue.cancel(existing.id)));
+    } catch (e: any) {
+        res.status(e?.conflict ? 409 : 500).json({ error: e.message || String(e) });
+    }
+});
+
+// ?coinType= normalized the way the indexer stores it; undefined when missing or malformed
+function coinTypeParam(req: express.Request): string | undefined {
+    try {
+        return req.query.coinType ? normalizeStructTag(String(req.query.coinType)) : undefined;
+    } catch {
+        return undefined;
+    }
+}
+
+// Event indexer progress: per-source cursors, last poll and totals
+api.get('/indexer/status', (req, res) => {
+    const { eventIndexer } = deploymentOf(res);
+    if (!eventIndexer) return res.status(404).json({ error: 'Event indexer is disabled' });
+    res.status(200).json(eventIndexer.status());
+});
+
+// Idols seen on chain (newest launch first), with pool, creator, trade totals, holders and graduation
+// Usage: GET /indexer/idols[?coinType=<T>]
+api.get('/indexer/idols', (req, res) => {
+    const { eventIndex } = deploymentOf(res);
+    if (!req.query.coinType) return res.status(200).json({ idols: eventIndex.listIdols() });
+    const coinType = coinTypeParam(req);
+    if (!coinType) return res.status(400).json({ error: 'coinType must be a Move type such as 0x...::module::STRUCT' });
+    const idol = eventIndex.getIdol(coinType);
+    if (!idol) return res.status(404).json({ error: `No indexed idol with coinType ${coinType}` });
+    res.status(200).json(idol);
+});
+
+// Indexed trades for one idol (the latest INDEXER_MAX_TRADES_PER_COIN), newest first. Usage: GET /indexer/trades?coinType=<T>[&limit=50&offset=0]
+api.get('/indexer/trades', (req, res) => {
+    const { eventIndex } = deploymentOf(res);
+    const coinType = coinTypeParam(req);
+    if (!coinType) return res.status(400).json({ error: 'coinType query param required' });
+    const limit = Math.min(Number(req.query.limit ?? 50) || 50, 500);
+    const offset = Math.max(Number(req.query.offset ?? 0) || 0, 0);
+    res.status(200).json({ coinType, ...eventIndex.trades(coinType, { limit, offset }) });
+});
+
+// Holders of one idol from indexed bonding-curve trades (net bought - sold > 0; transfers aren't tracked)
+api.get('/indexer/holders', (req, res) => {
+    const { eventIndex } = deploymentOf(res);
+    const coinType = coinTypeParam(req);
+    if (!coinType) return res.status(400).json({ error: 'coinType query param required' });
+    const holders = eventIndex.holders(coinType);
+    res.status(200).json({ coinType, count: holders.length, holders });
+});
+
+// Registered launches with their progress toward targetGoalSui and migration state, closest to the goal first
+api.get('/graduation', (req, res) => {
+    const { graduationMonitor } = deploymentOf(res);
+    res.status(200).json({ launches: graduationMonitor.list().map((job) => LaunchStore.view(job)) });
+});
+
+// Re-read one launch's IAO progress now and return its graduation state
+api.get('/launches/:id/graduation', async (req, res) => {
+    const { launchStore, graduationMonitor } = deploymentOf(res);
+    if (!launchStore.get(req.params.id)) return res.status(404).json({ error: 'Launch job not found' });
+    try {
+        const job = await graduationMonitor.check(req.params.id);
+        res.status(200).json({ jobId: job.id, coinType: job.publish?.coinType, ...job.graduation });
+    } catch (e: any) {
+        sendError(res, e);
+    }
+});
+
+// Migrate a launch's IAO to Cetus now, whatever its progress or failed attempts. Requires ADMIN_API_TOKEN.
+api.post('/launches/:id/graduation/migrate', requireAdmin, async (req, res) => {
+    const { launchStore, graduationMonitor } = deploymentOf(res);
+    if (!launchStore.get(req.params.id)) return res.status(404).json({ error: 'Launch job not found' });
+    try {
+        const job = await graduationMonitor.migrate(req.params.id);
+        const attempts = job.graduation?.attempts ?? [];
+        const last = attempts[attempts.length - 1];
+        const status = last?.ok ? 200 : (last?.abort?.status ?? 502);
+        res.status(status).json({ jobId: job.id, coinType: job.publish?.coinType, ...job.graduation });
+    } catch (e: any) {
+        if (e?.conflict) return res.status(409).json({ error: e.message });
+        sendError(res, e);
+    }
+});
+
+// UpgradeCaps and TreasuryCaps held by the server signer, grouped by idol coinType
+api.get('/custody/caps', async (req, res) => {
+    const { suiBlockchainService, launchStore } = deploymentOf(res);
+    try {
+        const idols = await suiBlockchainService.listCustodyCaps(
+            (packageId) => launchStore.findByPackageId(packageId)?.publish?.coinType,
+        );
+        res.status(200).json({ idols });
+    } catch (e: any) {
+        sendError(res, e);
+    }
+});
+
+// Transfer a held cap to a creator or multisig. Body: { recipient: "0x..." }. Requires ADMIN_API_TOKEN.
+// A TreasuryCap whose launch is still waiting for launch_idol (or can retry it) is refused with 409.
+api.post('/custody/caps/:id/transfer', requireAdmin, async (req, res) => {
+    const { suiBlockchainService, launchStore } = deploymentOf(res);
+    const { recipient } = (req.body ?? {}) as { recipient?: string };
+    if (typeof recipient !== 'string' || !isValidSuiAddress(recipient)) {
+        return res.status(400).json({ error: 'recipient must be a Sui address' });
+    }
+
+    try {
+        const cap = await suiBlockchainService.getCustodyCap(req.params.id);
+        const job = cap.coinType ? launchStore.findByCoinType(cap.coinType) : undefined;
+        // A launch that failed at launch_idol resumes there on retry, so it still needs the cap too
+        const awaitingLaunch =
+            job?.status === 'queued' ||
+            job?.status === 'published' ||
+            (job?.status === 'failed' && job.error?.step === 'register');
+        if (cap.kind === 'TreasuryCap' && job && awaitingLaunch) {
+            return res.status(409).json({
+                error: `Launch job ${job.id} still needs this TreasuryCap for launch_idol; cancel it first`,
+                jobId: job.id,
+            });
+        }
+        const transfer = await suiBlockchainService.transferCap(cap.objectId, normalizeSuiAddress(recipient));
+        res.status(200).json(transfer);
+    } catch (e: any) {
+        if (e?.notFound) return res.status(404).json({ error: e.message });
+        sendError(res, e);
     }
 });
 
+for (const deployment of deployments.values()) app.use(`/${deployment.network}`, useDeployment(deployment), api);
+app.use(useDeployment(), api);
+
+function runReadiness(deployment: Deployment): Promise<ReadinessReport> {
+    const minBalance = deployment.env.READY_MIN_SIGNER_BALANCE_MIST;
+    return checkReadiness(deployment.suiBlockchainService, deployment.network, {
+        minSignerBalanceMist: minBalance ? BigInt(minBalance) : deployment.suiBlockchainService.launchFundsEstimateMist(),
+        expectedTypes: deployment.expectedTypes,
+    });
+}
+
+// Startup self-check. Failed checks are logged and left to GET /ready, except configured objects
+// that are missing or of the wrong type: those make it return false. An unreachable fullnode doesn't.
+async function checkDeployment(deployment: Deployment): Promise<boolean> {
+    deployment.readiness = await runReadiness(deployment);
+    deployment.objectChecks = deployment.readiness.checks.find((check) => check.name === 'objects')?.objects;
+    for (const check of deployment.readiness.checks) {
+        if (check.status === 'pass' || (check.name === 'objects' && check.objects)) continue;
+        console.warn(`[DO Droplet] ${deployment.network}: ${check.name} ${check.status}: ${check.error}`);
+    }
+    const failed = deployment.objectChecks?.filter((check) => !check.ok) ?? [];
+    for (const check of failed) {
+        const found = check.actualType ? `, found ${check.actualType}` : '';
+        console.error(`[DO Droplet] ${deployment.network}: ${check.key} ${check.objectId} ${check.error}${found}`);
+    }
+    return !failed.length;
+}
+
+function startDeployment(deployment: Deployment) {
+    // Pick up launches that were interrupted by a crash/restart at the step where they stopped
+    deployment.launchQueue.resumePending();
+    deployment.eventIndexer?.start();
+    if (deployment.env.GRADUATION_MONITOR_ENABLED === 'true') deployment.graduationMonitor.start();
+}
+
 const port = Number(env.PORT ?? '3000');
 
-app.listen(port, () => {
-    console.log(`SUI Blockchain Service listening on port ${port}`);
+// Self-check every network before launches resume or requests are served
+Promise.all([...deployments.values()].map(checkDeployment)).then((results) => {
+    if (results.includes(false)) {
+        console.error('Error: deployment objects are missing or of the wrong type. Please check the configured object IDs.');
+        process.exit(1);
+    }
+    for (const deployment of deployments.values()) startDeployment(deployment);
+    app.listen(port, () => {
+        console.log(`SUI Blockchain Service listening on port ${port} (${[...deployments.keys()].join(', ')}; default ${defaultDeployment.network})`);
+    });
+}).catch((error) => {
+    console.error('Error: startup self-check failed:', error);
+    process.exit(1);
 });
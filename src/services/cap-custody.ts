@@ -0,0 +1,65 @@
+//--- File: services/cap-custody.ts ---
+
+import { SuiObjectData } from '@mysten/sui/client';
+import { normalizeStructTag, parseStructTag } from '@mysten/sui/utils';
+import { CapCustodyGroup, CustodyCap } from '../types';
+
+export const UPGRADE_CAP_TYPE = '0x2::package::UpgradeCap';
+export const TREASURY_CAP_TYPE = '0x2::coin::TreasuryCap';
+
+const UPGRADE_POLICIES: Record<number, string> = { 0: 'compatible', 128: 'additive', 192: 'dep_only' };
+
+/** UpgradeCap or TreasuryCap described by an object read with showType + showContent; undefined for anything else. */
+export function custodyCap(data: SuiObjectData | null | undefined): CustodyCap | undefined {
+    if (!data?.type) return undefined;
+    const fields = (data.content as any)?.fields ?? {};
+    const tag = parseStructTag(data.type);
+    const base = `${tag.address}::${tag.module}::${tag.name}`;
+
+    if (base === normalizeStructTag(UPGRADE_CAP_TYPE)) {
+        const policy = Number(fields.policy);
+        return {
+            kind: 'UpgradeCap',
+            objectId: data.objectId,
+            objectType: data.type,
+            packageId: fields.package,
+            packageVersion: fields.version !== undefined ? String(fields.version) : undefined,
+            upgradePolicy: UPGRADE_POLICIES[policy] ?? String(fields.policy),
+        };
+    }
+    if (base === normalizeStructTag(TREASURY_CAP_TYPE) && typeof tag.typeParams[0] === 'object') {
+        const coinType = normalizeStructTag(tag.typeParams[0]);
+        return {
+            kind: 'TreasuryCap',
+            objectId: data.objectId,
+            objectType: data.type,
+            packageId: parseStructTag(coinType).address,
+            coinType,
+            totalSupply: fields.total_supply?.fields?.value,
+        };
+    }
+    return undefined;
+}
+
+/**
+ * Group caps by the package they belong to. A TreasuryCap names its coinType; for packages
+ * with only an UpgradeCap, `coinTypeForPackage` (e.g. a launch store lookup) fills it in.
+ */
+export function groupCaps(
+    caps: CustodyCap[],
+    coinTypeForPackage: (packageId: string) => string | undefined = () => undefined,
+): CapCustodyGroup[] {
+    const groups = new Map<string, CapCustodyGroup>();
+    for (const cap of caps) {
+        let group = groups.get(cap.packageId);
+        if (!group) {
+            group = { packageId: cap.packageId, upgradeCaps: [], treasuryCaps: [] };
+            groups.set(cap.packageId, group);
+        }
+        if (cap.kind === 'UpgradeCap') group.upgradeCaps.push(cap);
+        else group.treasuryCaps.push(cap);
+        group.coinType ??= cap.coinType;
+    }
+    for (const group of groups.values()) group.coinType ??= coinTypeForPackage(group.packageId);
+    return [...groups.values()].sort((a, b) => (a.coinType ?? a.packageId).localeCompare(b.coinType ?? b.packageId));
+}
@@ -0,0 +1,111 @@
+//--- File: services/coin-bytecode-template.ts ---
+
+import * as template from '@mysten/move-bytecode-template';
+import { bcs } from '@mysten/sui/bcs';
+import { fromBase64, toBase64 } from '@mysten/sui/utils';
+import fs from 'fs';
+import { IdolTokenParams } from '../types';
+import { assertMoveIdentifier, moveBytes } from './move-literals';
+
+// Placeholder values compiled into move/coin_template/sources/template.move
+const TEMPLATE_MODULE = 'template';
+const TEMPLATE_STRUCT = 'TEMPLATE';
+const TEMPLATE_DECIMALS = 9;
+const TEMPLATE_SYMBOL = 'TMPL';
+const TEMPLATE_NAME = 'Template Coin';
+const TEMPLATE_DESCRIPTION = 'Template Coin Description';
+const TEMPLATE_ICON_URL = 'https://template.invalid/icon.png';
+const TEMPLATE_X_HANDLE = '@template_handle';
+const TEMPLATE_CHARACTER = 'Template Character';
+const TEMPLATE_SETTING = 'Template Setting';
+const TEMPLATE_IDOL_TYPE = 'template_type';
+const TEMPLATE_TARGET_GOAL_MIST = '987654321987654321';
+
+const VECTOR_PLACEHOLDERS = [
+    TEMPLATE_SYMBOL, TEMPLATE_NAME, TEMPLATE_DESCRIPTION, TEMPLATE_ICON_URL,
+    TEMPLATE_X_HANDLE, TEMPLATE_CHARACTER, TEMPLATE_SETTING, TEMPLATE_IDOL_TYPE,
+];
+
+const vectorU8 = (bytes: Uint8Array) => bcs.vector(bcs.u8()).serialize(bytes).toBytes();
+const sameBytes = (a: Uint8Array, b: Uint8Array) => Buffer.from(a).equals(Buffer.from(b));
+
+/**
+ * A coin module compiled once (`npm run build:coin-template`) and patched per launch:
+ * module name, OTW identifier and metadata constants are rewritten in the bytecode,
+ * so publishing needs no Sui CLI, temp dirs or child processes.
+ */
+export class CoinBytecodeTemplate {
+    private constructor(
+        private bytecode: Uint8Array,
+        private dependencies: string[],
+    ) {}
+
+    /**
+     * Load the JSON emitted by `sui move build --dump-bytecode-as-base64`.
+     * Returns undefined when the file is absent so callers can fall back to the CLI path.
+     */
+    static load(filePath: string): CoinBytecodeTemplate | undefined {
+        if (!fs.existsSync(filePath)) return undefined;
+        const parsed = JSON.parse(fs.readFileSync(filePath, 'utf-8')) as { modules?: string[]; dependencies?: string[] };
+        if (!parsed.modules || parsed.modules.length !== 1) {
+            throw new Error(`Coin template ${filePath} must contain exactly one compiled module`);
+        }
+        return new CoinBytecodeTemplate(fromBase64(parsed.modules[0]), parsed.dependencies || []);
+    }
+
+    build(moduleName: string, structName: string, params: IdolTokenParams): { modules: string[]; dependencies: string[] } {
+        assertMoveIdentifier(moduleName, 'moduleName');
+        assertMoveIdentifier(structName, 'structName');
+        if (!Number.isInteger(params.decimals) || params.decimals < 0 || params.decimals > 255) {
+            throw new Error('[Move template] decimals must be an integer in 0..255 (u8)');
+        }
+        // update_constants rewrites every constant holding the placeholder bytes, so a value that
+        // equals a placeholder patched later would be overwritten too
+        const { profile } = params;
+        const values = [params.ticker, params.name, params.description, params.imageUrl,
+            profile.xHandle, profile.character, profile.setting, profile.idolType];
+        if (values.some((v) => VECTOR_PLACEHOLDERS.includes(v))) {
+            throw new Error('[Move template] a metadata value equals a template placeholder');
+        }
+
+        let bytes = template.update_identifiers(this.bytecode, {
+            [TEMPLATE_STRUCT]: structName,
+            [TEMPLATE_MODULE]: moduleName,
+        });
+
+        bytes = this.patch(bytes, 'DECIMALS', bcs.u8().serialize(params.decimals).toBytes(),
+            bcs.u8().serialize(TEMPLATE_DECIMALS).toBytes(), 'U8');
+        bytes = this.patch(bytes, 'SYMBOL', vectorU8(moveBytes(params.ticker, 'ticker', { ascii: true })),
+            vectorU8(Buffer.from(TEMPLATE_SYMBOL)), 'Vector(U8)');
+        bytes = this.patch(bytes, 'NAME', vectorU8(moveBytes(params.name, 'name')),
+            vectorU8(Buffer.from(TEMPLATE_NAME)), 'Vector(U8)');
+        bytes = this.patch(bytes, 'DESCRIPTION', vectorU8(moveBytes(params.description, 'description')),
+            vectorU8(Buffer.from(TEMPLATE_DESCRIPTION)), 'Vector(U8)');
+        bytes = this.patch(bytes, 'ICON_URL', vectorU8(moveBytes(params.imageUrl, 'imageUrl', { ascii: true })),
+            vectorU8(Buffer.from(TEMPLATE_ICON_URL)), 'Vector(U8)');
+
+        // IdolProfile fields
+        bytes = this.patch(bytes, 'X_HANDLE', vectorU8(moveBytes(profile.xHandle, 'xHandle')),
+            vectorU8(Buffer.from(TEMPLATE_X_HANDLE)), 'Vector(U8)');
+        bytes = this.patch(bytes, 'CHARACTER', vectorU8(moveBytes(profile.character, 'character')),
+            vectorU8(Buffer.from(TEMPLATE_CHARACTER)), 'Vector(U8)');
+        bytes = this.patch(bytes, 'SETTING', vectorU8(moveBytes(profile.setting, 'setting')),
+            vectorU8(Buffer.from(TEMPLATE_SETTING)), 'Vector(U8)');
+        bytes = this.patch(bytes, 'IDOL_TYPE', vectorU8(moveBytes(profile.idolType, 'idolType')),
+            vectorU8(Buffer.from(TEMPLATE_IDOL_TYPE)), 'Vector(U8)');
+        bytes = this.patch(bytes, 'TARGET_GOAL_MIST', bcs.u64().serialize(profile.targetGoalMist).toBytes(),
+            bcs.u64().serialize(TEMPLATE_TARGET_GOAL_MIST).toBytes(), 'U64');
+
+        return { modules: [toBase64(bytes)], dependencies: this.dependencies };
+    }
+
+    // update_constants silently returns the input when no constant matches; treat that as a
+    // template/placeholder mismatch rather than publishing a coin with template metadata.
+    private patch(bytes: Uint8Array, label: string, next: Uint8Array, current: Uint8Array, type: string): Uint8Array {
+        const updated = template.update_constants(bytes, next, current, type);
+        if (sameBytes(updated, bytes) && !sameBytes(next, current)) {
+            throw new Error(`Coin template constant ${label} not found in bytecode; rebuild the template`);
+        }
+        return updated;
+    }
+}
@@ -0,0 +1,268 @@
+//--- File: services/coin-templates.ts ---
+
+import { normalizeStructTag } from '@mysten/sui/utils';
+import { COIN_TEMPLATE_IDS, CoinTemplateId, IdolCreateRequest, IdolTokenParams } from '../types';
+import { assertMoveIdentifier, moveBytesLiteral, moveU8Literal } from './move-literals';
+
+export const DEFAULT_COIN_TEMPLATE: CoinTemplateId = 'standard';
+
+// Values of one launch, already rendered as Move literals
+interface TemplateLiterals {
+    witness: string; // OTW type name
+    decimals: string;
+    symbol: string;
+    name: string;
+    description: string;
+    iconUrl: string;
+    totalSupply: string;
+}
+
+// Where the new coin lives; capability types are derived from it
+interface PublishedCoin {
+    packageId: string;
+    moduleName: string;
+    coinType: string;
+}
+
+export interface CoinTemplate {
+    id: CoinTemplateId;
+    summary: string;
+    // Where init leaves the TreasuryCap; a wrapped cap never appears in the publish result
+    treasuryCap: 'deployer' | 'frozen' | 'wrapped';
+    // launch_idol takes the TreasuryCap, so only templates that hand it to the deployer can open an IAO
+    launchesIao: boolean;
+    // Served from the pre-compiled bytecode (move/coin_template) instead of a CLI build
+    precompiled: boolean;
+    // Objects besides the UpgradeCap and TreasuryCap that init sends to the deployer
+    capabilities: Array<{ name: string; objectType: (coin: PublishedCoin) => string }>;
+    coinImports: string;
+    declarations?: (l: TemplateLiterals) => string;
+    // Body of init up to (and including) handing out the caps; must leave `metadata` unmoved
+    init: (l: TemplateLiterals) => string;
+}
+
+const createCurrency = (l: TemplateLiterals) => `
+        let (treasury_cap, metadata) = coin::create_currency<${l.witness}>(
+            witness,
+            ${l.decimals},
+            ${l.symbol},
+            ${l.name},
+            ${l.description},
+            option::some(url::new_unsafe_from_bytes(${l.iconUrl})),
+            ctx
+        );`;
+
+const TEMPLATES: Record<CoinTemplateId, CoinTemplate> = {
+    standard: {
+        id: 'standard',
+        treasuryCap: 'deployer',
+        summary: 'TreasuryCap to the deployer; supply is minted by launch_idol',
+        launchesIao: true,
+        precompiled: true,
+        capabilities: [],
+        coinImports: 'use sui::coin;',
+        init: (l) => `${createCurrency(l)}
+
+        // Give deployer the TreasuryCap so they control mint/burn
+        transfer::public_transfer(treasury_cap, tx_context::sender(ctx));`,
+    },
+    fixed_supply: {
+        id: 'fixed_supply',
+        treasuryCap: 'frozen',
+        summary: 'totalSupply minted to the deployer at publish, then the TreasuryCap is frozen',
+        launchesIao: false,
+        precompiled: false,
+        capabilities: [],
+        coinImports: 'use sui::coin;',
+        init: (l) => `${createCurrency(l)}
+
+        coin::mint_and_transfer(&mut treasury_cap, ${l.totalSupply}, tx_context::sender(ctx), ctx);
+
+        // A frozen TreasuryCap can't mint or burn again, but total_supply stays readable
+        transfer::public_freeze_object(treasury_cap);`,
+    },
+    capped_mint: {
+        id: 'capped_mint',
+        treasuryCap: 'wrapped',
+        summary: 'TreasuryCap wrapped in a CappedTreasury that never mints past totalSupply',
+        launchesIao: false,
+        precompiled: false,
+        capabilities: [
+            { name: 'CappedTreasury', objectType: (c) => `${c.packageId}::${c.moduleName}::CappedTreasury` },
+        ],
+        coinImports: 'use sui::coin::{Self, Coin, TreasuryCap};',
+        declarations: (l) => `
+    const EMaxSupplyExceeded: u64 = 0;
+
+    // Mint authority for this coin; total supply can never exceed max_supply
+    struct CappedTreasury has key, store {
+        id: UID,
+        cap: TreasuryCap<${l.witness}>,
+        max_supply: u64,
+    }
+
+    public entry fun mint(treasury: &mut CappedTreasury, amount: u64, recipient: address, ctx: &mut TxContext) {
+        assert!(amount <= treasury.max_supply - coin::total_supply(&treasury.cap), EMaxSupplyExceeded);
+        coin::mint_and_transfer(&mut treasury.cap, amount, recipient, ctx);
+    }
+
+    public entry fun burn(treasury: &mut CappedTreasury, c: Coin<${l.witness}>) {
+        coin::burn(&mut treasury.cap, c);
+    }
+
+    public fun total_supply(treasury: &CappedTreasury): u64 {
+        coin::total_supply(&treasury.cap)
+    }
+
+    public fun max_supply(treasury: &CappedTreasury): u64 {
+        treasury.max_supply
+    }
+`,
+        init: (l) => `${createCurrency(l)}
+
+        transfer::public_transfer(CappedTreasury {
+            id: object::new(ctx),
+            cap: treasury_cap,
+            max_supply: ${l.totalSupply},
+        }, tx_context::sender(ctx));`,
+    },
+    regulated: {
+        id: 'regulated',
+        treasuryCap: 'deployer',
+        summary: 'Regulated coin: TreasuryCap and a DenyCapV2 (deny list) to the deployer',
+        launchesIao: true,
+        precompiled: false,
+        capabilities: [{ name: 'DenyCap', objectType: (c) => `0x2::coin::DenyCapV2<${c.coinType}>` }],
+        coinImports: 'use sui::coin;',
+        // create_regulated_currency (v1) is deprecated in the framework; v2 backs the current deny list
+        init: (l) => `
+        let (treasury_cap, deny_cap, metadata) = coin::create_regulated_currency_v2<${l.witness}>(
+            witness,
+            ${l.decimals},
+            ${l.symbol},
+            ${l.name},
+            ${l.description},
+            option::some(url::new_unsafe_from_bytes(${l.iconUrl})),
+            false, // no global pause
+            ctx
+        );
+
+        transfer::public_transfer(treasury_cap, tx_context::sender(ctx));
+        transfer::public_transfer(deny_cap, tx_context::sender(ctx));`,
+    },
+};
+
+export function isCoinTemplateId(value: unknown): value is CoinTemplateId {
+    return COIN_TEMPLATE_IDS.includes(value as CoinTemplateId);
+}
+
+export function coinTemplate(id: CoinTemplateId = DEFAULT_COIN_TEMPLATE): CoinTemplate {
+    const template = TEMPLATES[id];
+    if (!template) throw new Error(`Unknown coin template "${id}"`);
+    return template;
+}
+
+/** Template a launch asked for (standard when unset). */
+export function coinTemplateFor(createParams: IdolCreateRequest): CoinTemplate {
+    return coinTemplate(createParams.coinTemplate);
+}
+
+export function listCoinTemplates() {
+    return COIN_TEMPLATE_IDS.map((id) => {
+        const t = TEMPLATES[id];
+        return { id, summary: t.summary, launchesIao: t.launchesIao, capabilities: t.capabilities.map((c) => c.name) };
+    });
+}
+
+/** Match the template's capability objects in a publish result's objectChanges. */
+export function findCapabilities(
+    template: CoinTemplate,
+    coin: PublishedCoin,
+    objectChanges: any[],
+): Array<{ name: string; objectId: string; objectType: string }> {
+    return template.capabilities.map(({ name, objectType }) => {
+        const expected = normalizeStructTag(objectType(coin));
+        const change = objectChanges.find(
+            (o) =>
+                (o.type === 'created' || o.type === 'transferred') &&
+                typeof o.objectType === 'string' &&
+                normalizeStructTag(o.objectType) === expected,
+        );
+        if (!change?.objectId) throw new Error(`${name} (${expected}) not found in the publish result`);
+        return { name, objectId: change.objectId as string, objectType: change.objectType as string };
+    });
+}
+
+/** Move source of the coin module for `params.template`. */
+export function renderTokenModule(moduleName: string, MODULE_NAME_UPPER: string, params: IdolTokenParams): string {
+    assertMoveIdentifier(moduleName, 'moduleName');
+    assertMoveIdentifier(MODULE_NAME_UPPER, 'structName');
+    const template = coinTemplate(params.template);
+
+    // User-supplied values are emitted as hex byte literals so they can't break out of the literal.
+    // Symbol and icon URL are std::ascii on chain; name and description are UTF-8.
+    const literals: TemplateLiterals = {
+        witness: MODULE_NAME_UPPER,
+        decimals: moveU8Literal(params.decimals, 'decimals'),
+        symbol: moveBytesLiteral(params.ticker, 'ticker', { ascii: true }),
+        name: moveBytesLiteral(params.name, 'name'),
+        description: moveBytesLiteral(params.description, 'description'),
+        iconUrl: moveBytesLiteral(params.imageUrl, 'imageUrl', { ascii: true }),
+        totalSupply: params.totalSupply,
+    };
+    const { profile } = params;
+    const xHandle = moveBytesLiteral(profile.xHandle, 'xHandle');
+    const character = moveBytesLiteral(profile.character, 'character');
+    const setting = moveBytesLiteral(profile.setting, 'setting');
+    const idolType = moveBytesLiteral(profile.idolType, 'idolType');
+    if (!/^\d+$/.test(profile.targetGoalMist)) {
+        throw new Error('[Move template] targetGoalMist must be a u64 integer string');
+    }
+    if (!/^\d+$/.test(params.totalSupply)) {
+        throw new Error('[Move template] totalSupply must be a u64 integer string');
+    }
+
+    // OTW must be UPPERCASE(moduleName); init runs on publish and receives the OTW
+    return `
+module ${moduleName}::${moduleName} {
+    use std::option;
+    use std::string::{Self, String};
+    ${template.coinImports}
+    use sui::object::{Self, UID};
+    use sui::transfer;
+    use sui::url;
+    use sui::tx_context::{Self, TxContext};
+
+    // One-Time Witness type (UPPERCASE module name)
+    struct ${MODULE_NAME_UPPER} has drop {}
+
+    // Immutable profile of the idol behind this coin, frozen at publish
+    struct IdolProfile has key {
+        id: UID,
+        x_handle: String,
+        character: String,
+        setting: String,
+        idol_type: String,
+        description: String,
+        target_goal_mist: u64,
+    }
+${template.declarations?.(literals) ?? ''}
+    // Called once at publish-time; Sui provides the OTW automatically
+    fun init(witness: ${MODULE_NAME_UPPER}, ctx: &mut TxContext) {${template.init(literals)}
+
+        // Freeze metadata so it's immutable/readable globally (must use the public variant)
+        transfer::public_freeze_object(metadata);
+
+        transfer::freeze_object(IdolProfile {
+            id: object::new(ctx),
+            x_handle: string::utf8(${xHandle}),
+            character: string::utf8(${character}),
+            setting: string::utf8(${setting}),
+            idol_type: string::utf8(${idolType}),
+            description: string::utf8(${literals.description}),
+            target_goal_mist: ${profile.targetGoalMist},
+        });
+    }
+}
+`.trim();
+}
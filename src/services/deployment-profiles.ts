@@ -0,0 +1,113 @@
+//--- File: services/deployment-profiles.ts ---
+
+import fs from 'fs';
+import path from 'path';
+import { isValidSuiObjectId, normalizeSuiAddress, normalizeSuiObjectId, parseStructTag } from '@mysten/sui/utils';
+import { DEPLOYMENT_OBJECT_KEYS, DeploymentObjectKey, DeploymentProfile, Env, NETWORKS, SuiNetwork } from '../types';
+
+export type DeploymentProfiles = Partial<Record<SuiNetwork, DeploymentProfile>>;
+
+// Objects every deployment needs; POOLS_PACKAGE_ID and BONDING_CURVE_GLOBAL_CONFIG_ID are optional
+export const REQUIRED_OBJECT_KEYS: DeploymentObjectKey[] = [
+    'IAO_CONFIG_ID', 'IAO_REGISTRY_ID', 'POOLS_CONFIG_ID', 'POOLS_REGISTRY_ID', 'CLOCK_ID', 'FACTORY_PACKAGE_ID',
+    'CETUS_GLOBAL_CONFIG_ID', 'CETUS_POOLS_ID',
+];
+
+// Types known without the factory/pools sources; their other objects are only checked for
+// existence unless a profile pins them in expectedTypes
+export const DEFAULT_EXPECTED_TYPES: Partial<Record<DeploymentObjectKey, string>> = {
+    CLOCK_ID: '0x2::clock::Clock',
+    FACTORY_PACKAGE_ID: 'package',
+    POOLS_PACKAGE_ID: 'package',
+    CETUS_GLOBAL_CONFIG_ID: 'config::GlobalConfig',
+    CETUS_POOLS_ID: 'factory::Pools',
+};
+
+// Data files that must not be shared between networks, with their flat-config defaults
+const NETWORK_SCOPED_PATHS = {
+    LAUNCH_STORE_PATH: 'data/launches.json',
+    GAS_SPEND_LEDGER_PATH: 'data/gas-spend.json',
+    INDEXER_STORE_PATH: 'data/index.json',
+} as const;
+
+/**
+ * Read DEPLOYMENT_PROFILES_PATH: a JSON object keyed by network, e.g.
+ * { "testnet": { "rpcUrl": "...", "objects": { "IAO_CONFIG_ID": "0x..." }, "signer": { "secretKeyEnv": "TESTNET_KEY" } } }
+ */
+export function loadDeploymentProfiles(filePath: string): DeploymentProfiles {
+    const profiles = JSON.parse(fs.readFileSync(filePath, 'utf-8')) as Record<string, DeploymentProfile>;
+    if (!profiles || typeof profiles !== 'object' || Array.isArray(profiles) || !Object.keys(profiles).length) {
+        throw new Error(`${filePath}: expected an object with one profile per network`);
+    }
+    for (const [network, profile] of Object.entries(profiles)) {
+        if (!(NETWORKS as readonly string[]).includes(network)) {
+            throw new Error(`${filePath}: unknown network "${network}" (use ${NETWORKS.join(', ')})`);
+        }
+        if (!profile?.objects || typeof profile.objects !== 'object') {
+            throw new Error(`${filePath}: ${network} has no "objects"`);
+        }
+        for (const [key, id] of Object.entries(profile.objects)) {
+            if (!DEPLOYMENT_OBJECT_KEYS.includes(key as DeploymentObjectKey)) {
+                throw new Error(
+                    `${filePath}: ${network}.objects.${key} is not a deployment object (use ${DEPLOYMENT_OBJECT_KEYS.join(', ')})`,
+                );
+            }
+            if (typeof id !== 'string' || !isValidSuiObjectId(normalizeSuiObjectId(id))) {
+                throw new Error(`${filePath}: ${network}.objects.${key} must be an object ID`);
+            }
+        }
+    }
+    return profiles as DeploymentProfiles;
+}
+
+/**
+ * Env of one network: shared settings from the flat env, then the profile's own settings,
+ * object IDs, RPC URL and signer. Networks other than SUI_NETWORK get their own data files
+ * (data/<network>/...) so the default network keeps using the existing ones.
+ */
+export function profileEnv(base: Env, network: SuiNetwork, profile: DeploymentProfile, vars = process.env): Env {
+    const env: Env = { ...base };
+    // Flat object IDs belong to SUI_NETWORK; never let one leak into another network's profile
+    for (const key of DEPLOYMENT_OBJECT_KEYS) (env as Partial<Env>)[key] = undefined;
+    if (network !== base.SUI_NETWORK) {
+        for (const [key, file] of Object.entries(NETWORK_SCOPED_PATHS) as Array<[keyof typeof NETWORK_SCOPED_PATHS, string]>) {
+            const current = base[key] || file;
+            env[key] = path.join(path.dirname(current), network, path.basename(current));
+        }
+    }
+    Object.assign(env, profile.env, profile.objects, { SUI_NETWORK: network, SUI_RPC_URL: profile.rpcUrl });
+
+    if (profile.signer) {
+        const { secretKeyEnv, scheme, remoteUrl, remoteAddress, remoteTokenEnv } = profile.signer;
+        if (!remoteUrl && !(secretKeyEnv && vars[secretKeyEnv])) {
+            throw new Error(`${network} profile: signer needs remoteUrl or secretKeyEnv naming a set variable`);
+        }
+        Object.assign(env, {
+            SUI_SIGNER_SECRET_KEY: secretKeyEnv ? vars[secretKeyEnv] : undefined,
+            SUI_SIGNER_SCHEME: scheme,
+            SUI_REMOTE_SIGNER_URL: remoteUrl,
+            SUI_REMOTE_SIGNER_ADDRESS: remoteAddress,
+            SUI_REMOTE_SIGNER_TOKEN: remoteTokenEnv ? vars[remoteTokenEnv] : undefined,
+        });
+    }
+    return env;
+}
+
+/** Settings a deployment can't run without that `env` leaves unset. */
+export function missingSettings(env: Env): string[] {
+    const signerKey = env.SUI_REMOTE_SIGNER_URL ? 'SUI_REMOTE_SIGNER_ADDRESS' : 'SUI_SIGNER_SECRET_KEY';
+    return [signerKey, ...REQUIRED_OBJECT_KEYS].filter((key) => !env[key as keyof Env]);
+}
+
+/** `actualType` against an expected type: "package", a full type (any type arguments) or module::Struct. */
+export function matchesExpectedType(actualType: string, expectedType: string): boolean {
+    if (expectedType === 'package' || actualType === 'package') return expectedType === actualType;
+    const actual = parseStructTag(actualType);
+    if (!expectedType.startsWith('0x')) return `${actual.module}::${actual.name}` === expectedType;
+    const expected = parseStructTag(expectedType);
+    return (
+        normalizeSuiAddress(actual.address) === normalizeSuiAddress(expected.address) &&
+        actual.module === expected.module &&
+        actual.name === expected.name
+    );
+}
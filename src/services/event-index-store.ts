@@ -0,0 +1,163 @@
+//--- File: services/event-index-store.ts ---
+
+import fs from 'fs';
+import path from 'path';
+import { EventId } from '@mysten/sui/client';
+import { IndexedEventKind, IndexedIdol, IndexedTrade } from '../types';
+
+// One recognized event, already reduced to the fields the index keeps
+export interface IndexedEvent {
+    kind: IndexedEventKind;
+    coinType: string;
+    digest: string;
+    eventSeq: string;
+    sender: string;
+    timestamp?: string;
+    trader?: string;
+    quoteAmount?: string;
+    tokenAmount?: string;
+    poolId?: string;
+    cetusPoolId?: string;
+}
+
+interface IndexState {
+    // Per event source (<package>::<module>): last event applied, null before the first page
+    cursors: Record<string, EventId | null>;
+    idols: Record<string, IndexedIdol>;
+    trades: Record<string, IndexedTrade[]>; // oldest first, the latest maxTradesPerCoin only
+    // Net bonding-curve position per trader (bought - sold, base units)
+    positions: Record<string, Record<string, string>>;
+}
+
+/**
+ * File-backed index of idol launches, trades and graduations.
+ * Like LaunchStore, the whole index lives in memory and is flushed to one JSON file
+ * (temp file + rename). Each page of events is applied together with its cursor, so a
+ * restart resumes exactly after the last page that was written.
+ * Only the latest `maxTradesPerCoin` trades of each coin are kept, so the file (rewritten
+ * for every page) stays bounded; idol totals and positions still count every trade.
+ */
+export class EventIndexStore {
+    private state: IndexState = { cursors: {}, idols: {}, trades: {}, positions: {} };
+
+    constructor(
+        private filePath: string,
+        private maxTradesPerCoin = 1000,
+    ) {
+        if (!Number.isSafeInteger(maxTradesPerCoin) || maxTradesPerCoin < 1) {
+            throw new Error('INDEXER_MAX_TRADES_PER_COIN must be a positive integer');
+        }
+        if (fs.existsSync(filePath)) {
+            this.state = { ...this.state, ...(JSON.parse(fs.readFileSync(filePath, 'utf-8')) as IndexState) };
+            for (const trades of Object.values(this.state.trades)) this.trim(trades);
+        } else {
+            fs.mkdirSync(path.dirname(filePath), { recursive: true });
+        }
+    }
+
+    cursor(source: string): EventId | null {
+        return this.state.cursors[source] ?? null;
+    }
+
+    cursors(): Record<string, EventId | null> {
+        return { ...this.state.cursors };
+    }
+
+    /** Apply one page of events from `source` and move its cursor past them. */
+    applyPage(source: string, events: IndexedEvent[], nextCursor: EventId | null) {
+        const current = this.state.cursors[source];
+        const moved = !!nextCursor && (current?.txDigest !== nextCursor.txDigest || current?.eventSeq !== nextCursor.eventSeq);
+        if (!events.length && !moved) return; // caught up: nothing to write
+        for (const e of events) this.apply(e);
+        if (nextCursor) this.state.cursors[source] = nextCursor;
+        this.flush();
+    }
+
+    listIdols(): Array<IndexedIdol & { holders: number }> {
+        return Object.values(this.state.idols)
+            .map((idol) => ({ ...idol, holders: this.holderCount(idol.coinType) }))
+            .sort((a, b) => (b.launchedAt ?? '').localeCompare(a.launchedAt ?? ''));
+    }
+
+    getIdol(coinType: string): (IndexedIdol & { holders: number }) | undefined {
+        const idol = this.state.idols[coinType];
+        return idol && { ...idol, holders: this.holderCount(coinType) };
+    }
+
+    /** Retained trades for one coin, newest first. */
+    trades(coinType: string, { limit = 50, offset = 0 }: { limit?: number; offset?: number } = {}) {
+        const all = this.state.trades[coinType] ?? [];
+        const end = Math.max(all.length - offset, 0);
+        return { total: all.length, trades: all.slice(Math.max(end - limit, 0), end).reverse() };
+    }
+
+    /** Addresses with a positive net position from bonding-curve trades (transfers aren't seen). */
+    holders(coinType: string): Array<{ address: string; balance: string }> {
+        return Object.entries(this.state.positions[coinType] ?? {})
+            .filter(([, balance]) => BigInt(balance) > 0n)
+            .map(([address, balance]) => ({ address, balance }))
+            .sort((a, b) => (BigInt(a.balance) === BigInt(b.balance) ? 0 : BigInt(a.balance) > BigInt(b.balance) ? -1 : 1));
+    }
+
+    stats() {
+        return {
+            idols: Object.keys(this.state.idols).length,
+            trades: Object.values(this.state.trades).reduce((sum, t) => sum + t.length, 0),
+        };
+    }
+
+    private holderCount(coinType: string): number {
+        return Object.values(this.state.positions[coinType] ?? {}).filter((b) => BigInt(b) > 0n).length;
+    }
+
+    private idol(coinType: string): IndexedIdol {
+        return (this.state.idols[coinType] ??= { coinType, trades: 0, volumeQuote: '0' });
+    }
+
+    private apply(e: IndexedEvent) {
+        const idol = this.idol(e.coinType);
+        if (e.kind === 'launch') {
+            idol.poolId ??= e.poolId;
+            idol.creator ??= e.trader ?? e.sender;
+            idol.launchedAt ??= e.timestamp;
+            idol.launchDigest ??= e.digest;
+            return;
+        }
+        if (e.kind === 'graduation') {
+            idol.graduated = { digest: e.digest, at: e.timestamp, cetusPoolId: e.cetusPoolId };
+            return;
+        }
+
+        const trader = e.trader ?? e.sender;
+        const trades = (this.state.trades[e.coinType] ??= []);
+        trades.push({
+            side: e.kind,
+            trader,
+            quoteAmount: e.quoteAmount,
+            tokenAmount: e.tokenAmount,
+            digest: e.digest,
+            eventSeq: e.eventSeq,
+            timestamp: e.timestamp,
+        });
+        this.trim(trades);
+        idol.trades += 1;
+        idol.volumeQuote = (BigInt(idol.volumeQuote) + BigInt(e.quoteAmount ?? 0)).toString();
+        idol.lastTradeAt = e.timestamp ?? idol.lastTradeAt;
+
+        if (e.tokenAmount !== undefined) {
+            const positions = (this.state.positions[e.coinType] ??= {});
+            const delta = e.kind === 'buy' ? BigInt(e.tokenAmount) : -BigInt(e.tokenAmount);
+            positions[trader] = (BigInt(positions[trader] ?? 0) + delta).toString();
+        }
+    }
+
+    private trim(trades: IndexedTrade[]) {
+        if (trades.length > this.maxTradesPerCoin) trades.splice(0, trades.length - this.maxTradesPerCoin);
+    }
+
+    private flush() {
+        const tmp = `${this.filePath}.tmp`;
+        fs.writeFileSync(tmp, JSON.stringify(this.state));
+        fs.renameSync(tmp, this.filePath);
+    }
+}
@@ -0,0 +1,177 @@
+//--- File: services/event-indexer.ts ---
+
+import { SuiClient, SuiEvent } from '@mysten/sui/client';
+import { normalizeStructTag, normalizeSuiAddress, parseStructTag } from '@mysten/sui/utils';
+import { IndexedEventKind } from '../types';
+import { EventIndexStore, IndexedEvent } from './event-index-store';
+
+export interface EventIndexerOptions {
+    sources: string[]; // <package>::<module> whose event types are followed
+    pollMs: number; // pause between polls once every source is caught up
+    quoteCoinType: string; // ignored when picking the idol coin out of an event's type arguments
+    pageSize?: number;
+}
+
+// The factory/pools packages aren't in this repo, so events are recognized by struct name
+const KIND_PATTERNS: Array<[IndexedEventKind, RegExp]> = [
+    ['graduation', /graduat|migrat/i],
+    ['launch', /launch|iao.*creat|creat.*iao/i],
+    ['buy', /buy|bought/i],
+    ['sell', /sell|sold/i],
+];
+
+// Field names tried, in order, for each value
+const FIELDS = {
+    coinType: ['coin_type', 'token_type', 'coin', 'type_name'],
+    trader: ['buyer', 'seller', 'trader', 'user', 'creator', 'owner'],
+    poolId: ['iao_id', 'pool_id', 'iao', 'pool'],
+    // Not pool_id: on a graduation event that is the IAO being migrated, not the Cetus pool
+    cetusPoolId: ['cetus_pool_id', 'cetus_pool'],
+    buyQuote: ['sui_amount', 'quote_amount', 'amount_in', 'sui_in', 'cost'],
+    buyToken: ['token_amount', 'base_amount', 'amount_out', 'tokens_out'],
+    sellToken: ['token_amount', 'base_amount', 'amount_in', 'tokens_in'],
+    sellQuote: ['sui_amount', 'quote_amount', 'amount_out', 'sui_out', 'proceeds'],
+};
+
+function pick(fields: Record<string, unknown>, names: string[]): unknown {
+    for (const name of names) if (fields[name] !== undefined && fields[name] !== null) return fields[name];
+    return undefined;
+}
+
+function pickAmount(fields: Record<string, unknown>, names: string[]): string | undefined {
+    const v = pick(fields, names);
+    return (typeof v === 'string' || typeof v === 'number') && /^\d+$/.test(String(v)) ? String(v) : undefined;
+}
+
+function pickAddress(fields: Record<string, unknown>, names: string[]): string | undefined {
+    const v = pick(fields, names);
+    const id = typeof v === 'object' && v && 'id' in v ? (v as { id: unknown }).id : v; // ID fields may render as { id }
+    return typeof id === 'string' ? normalizeSuiAddress(id) : undefined;
+}
+
+/**
+ * Reduce a raw event to an IndexedEvent, or undefined when it isn't a launch/trade/graduation.
+ * The idol coin comes from the event's type arguments (skipping the quote coin) or from a
+ * TypeName field, which std::type_name renders without the 0x prefix.
+ */
+export function classifyEvent(event: SuiEvent, quoteCoinType: string): IndexedEvent | undefined {
+    const tag = parseStructTag(event.type);
+    const kind = KIND_PATTERNS.find(([, pattern]) => pattern.test(tag.name))?.[0];
+    if (!kind) return undefined;
+
+    const fields = (event.parsedJson ?? {}) as Record<string, unknown>;
+    const quote = normalizeStructTag(quoteCoinType);
+    let coinType = tag.typeParams
+        .map((p) => (typeof p === 'object' ? normalizeStructTag(p) : undefined))
+        .find((t) => t && t !== quote);
+    if (!coinType) {
+        const raw = pick(fields, FIELDS.coinType);
+        const name = typeof raw === 'object' && raw && 'name' in raw ? (raw as { name: unknown }).name : raw;
+        if (typeof name === 'string' && name.includes('::')) {
+            coinType = normalizeStructTag(name.startsWith('0x') ? name : `0x${name}`);
+        }
+    }
+    if (!coinType) return undefined;
+
+    const base: IndexedEvent = {
+        kind,
+        coinType,
+        digest: event.id.txDigest,
+        eventSeq: event.id.eventSeq,
+        sender: event.sender,
+        timestamp: event.timestampMs ? new Date(Number(event.timestampMs)).toISOString() : undefined,
+        trader: pickAddress(fields, FIELDS.trader),
+    };
+    switch (kind) {
+        case 'launch':
+            return { ...base, poolId: pickAddress(fields, FIELDS.poolId) };
+        case 'graduation':
+            return { ...base, cetusPoolId: pickAddress(fields, FIELDS.cetusPoolId) };
+        case 'buy':
+            return {
+                ...base,
+                quoteAmount: pickAmount(fields, FIELDS.buyQuote),
+                tokenAmount: pickAmount(fields, FIELDS.buyToken),
+            };
+        case 'sell':
+            return {
+                ...base,
+                quoteAmount: pickAmount(fields, FIELDS.sellQuote),
+                tokenAmount: pickAmount(fields, FIELDS.sellToken),
+            };
+    }
+}
+
+/**
+ * Background poller that follows the events of each source module (queryEvents, ascending)
+ * and folds launches, buys, sells and graduations into the EventIndexStore. Each source
+ * has its own cursor; a failed poll is logged and retried on the next tick.
+ */
+export class EventIndexer {
+    private timer?: NodeJS.Timeout;
+    private running = false;
+    private lastPollAt?: string;
+    private lastError?: string;
+
+    constructor(
+        private client: SuiClient,
+        private store: EventIndexStore,
+        private options: EventIndexerOptions,
+    ) {}
+
+    start() {
+        if (this.running) return;
+        this.running = true;
+        console.log(`[Event Indexer] Following ${this.options.sources.join(', ')}`);
+        void this.tick();
+    }
+
+    stop() {
+        this.running = false;
+        clearTimeout(this.timer);
+    }
+
+    status() {
+        return {
+            running: this.running,
+            sources: this.options.sources,
+            cursors: this.store.cursors(),
+            lastPollAt: this.lastPollAt,
+            lastError: this.lastError,
+            ...this.store.stats(),
+        };
+    }
+
+    private async tick() {
+        try {
+            for (const source of this.options.sources) await this.catchUp(source);
+            this.lastError = undefined;
+        } catch (error: any) {
+            this.lastError = error?.message || String(error);
+            console.error('[Event Indexer] Poll failed:', this.lastError);
+        }
+        this.lastPollAt = new Date().toISOString();
+        if (this.running) this.timer = setTimeout(() => void this.tick(), this.options.pollMs);
+    }
+
+    // Page through everything after the stored cursor
+    private async catchUp(source: string) {
+        const [pkg, module] = source.split('::');
+        for (;;) {
+            const page = await this.client.queryEvents({
+                query: { MoveEventModule: { package: pkg, module } },
+                cursor: this.store.cursor(source),
+                order: 'ascending',
+                limit: this.options.pageSize ?? 50,
+            });
+            const events = page.data
+                .map((e) => classifyEvent(e, this.options.quoteCoinType))
+                .filter((e): e is IndexedEvent => !!e);
+            this.store.applyPage(source, events, page.nextCursor ?? null);
+            if (events.length) {
+                console.log(`[Event Indexer] ${source}: indexed ${events.length} of ${page.data.length} event(s)`);
+            }
+            if (!page.hasNextPage || !this.running) return;
+        }
+    }
+}
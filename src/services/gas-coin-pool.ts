@@ -0,0 +1,247 @@
+//--- File: services/gas-coin-pool.ts ---
+
+import { randomUUID } from 'crypto';
+import { SuiClient } from '@mysten/sui/client';
+import { Transaction } from '@mysten/sui/transactions';
+import { TransactionSigner } from './signers';
+
+export interface GasCoinPoolOptions {
+    size: number; // idle coins to keep ready
+    coinBalanceMist: bigint; // balance of each freshly split coin
+    minCoinBalanceMist: bigint; // coins below this are retired and merged back on the next refill
+    leaseTimeoutMs: number; // how long lease() waits for a coin to come back
+}
+
+type ObjectRef = { objectId: string; version: string; digest: string };
+type PooledCoin = ObjectRef & { balance: bigint };
+
+// Budget for the split/merge maintenance transaction, paid from the reserve coin
+const MAINTENANCE_GAS_BUDGET = 50_000_000n;
+// Sui caps gas payment at 256 coins; keep a margin for the reserve itself
+const MAX_MERGE_COINS = 200;
+
+/**
+ * Pre-split SUI coins owned by the server signer, leased one per transaction so concurrent
+ * launches never pay gas with (and equivocate on) the same coin object. The largest free coin
+ * acts as the reserve: refills split fresh coins off it and merge retired/dust coins into it.
+ * Pool membership is rebuilt from the owner's coins on every refill, so nothing is persisted.
+ */
+export class GasCoinPool {
+    private idle = new Map<string, PooledCoin>();
+    private leased = new Map<string, PooledCoin>(); // lease id -> coin
+    private maintenance = new Set<string>(); // reserve + dust coins used by a running refill
+    private refilling?: Promise<void>;
+    private waiters: Array<() => void> = [];
+
+    constructor(
+        private client: SuiClient,
+        private signer: TransactionSigner,
+        private options: GasCoinPoolOptions,
+        // Coins locked elsewhere (e.g. by the GasStation) that the pool must never touch
+        private isCoinLocked: (coinId: string) => boolean = () => false,
+    ) {}
+
+    /** True while the coin is idle in, leased from or being refilled by the pool. */
+    holds(coinId: string): boolean {
+        if (this.idle.has(coinId) || this.maintenance.has(coinId)) return true;
+        for (const coin of this.leased.values()) if (coin.objectId === coinId) return true;
+        return false;
+    }
+
+    /** Take a coin holding at least `minBalance` (default: the pool minimum) until release(). */
+    async lease(minBalance: bigint = this.options.minCoinBalanceMist): Promise<{ id: string; coin: ObjectRef }> {
+        const deadline = Date.now() + this.options.leaseTimeoutMs;
+        for (;;) {
+            const coin = [...this.idle.values()].find((c) => c.balance >= minBalance);
+            if (coin) {
+                this.idle.delete(coin.objectId);
+                const id = randomUUID();
+                this.leased.set(id, coin);
+                if (this.idle.size < this.options.size) this.refillInBackground();
+                const { objectId, version, digest } = coin;
+                return { id, coin: { objectId, version, digest } };
+            }
+
+            // Idle coins too small for this lease are merged back and a big enough coin is split
+            let refillError: unknown;
+            await this.refill(minBalance).catch((e) => (refillError = e));
+            if ([...this.idle.values()].some((c) => c.balance >= minBalance)) continue;
+
+            // Coins only shrink while leased, so waiting helps only if a leased one is big enough now
+            if (![...this.leased.values()].some((c) => c.balance >= minBalance)) {
+                const reason = refillError instanceof Error ? `: ${refillError.message}` : '';
+                throw new Error(`No gas coin with at least ${minBalance} MIST available for ${this.signer.address}${reason}`);
+            }
+            await this.waitForRelease(deadline);
+        }
+    }
+
+    /**
+     * Return a leased coin. After execution its version and balance changed, so the current
+     * ref is re-read from the node. `failed`: the transaction's fate is unknown (submission
+     * error), so the coin is dropped rather than risk reusing a stale version.
+     */
+    async release(id: string, { failed = false }: { failed?: boolean } = {}) {
+        const coin = this.leased.get(id);
+        if (!coin) return;
+        try {
+            if (failed) return;
+            const res = await this.client.getObject({ id: coin.objectId, options: { showContent: true } });
+            const balance = (res.data?.content as any)?.fields?.balance;
+            if (!res.data || balance === undefined) return; // coin was consumed
+            const next: PooledCoin = {
+                objectId: res.data.objectId,
+                version: res.data.version,
+                digest: res.data.digest,
+                balance: BigInt(balance),
+            };
+            // Too small to back another transaction: leave it free so the next refill merges it
+            if (next.balance >= this.options.minCoinBalanceMist) this.idle.set(next.objectId, next);
+        } catch (error: any) {
+            console.error(`[Gas Pool] Failed to refresh gas coin ${coin.objectId}; dropping it:`, error.message || error);
+        } finally {
+            this.leased.delete(id);
+            this.waiters.splice(0).forEach((wake) => wake());
+            if (this.idle.size < this.options.size) this.refillInBackground();
+        }
+    }
+
+    stats() {
+        return {
+            owner: this.signer.address,
+            idle: this.idle.size,
+            leased: this.leased.size,
+            targetSize: this.options.size,
+            idleBalanceMist: [...this.idle.values()].reduce((sum, c) => sum + c.balance, 0n).toString(),
+            coinBalanceMist: this.options.coinBalanceMist.toString(),
+            minCoinBalanceMist: this.options.minCoinBalanceMist.toString(),
+            refilling: !!this.refilling,
+        };
+    }
+
+    /**
+     * Adopt usable free coins, merge dust into the reserve and split new coins off it (coalesced).
+     * With `needMist`, a pool whose idle coins all hold less retires them and splits one that holds it.
+     */
+    refill(needMist?: bigint): Promise<void> {
+        if (this.refilling) {
+            // A running refill may not have been asked for this amount: run again once it's done
+            if (needMist === undefined) return this.refilling;
+            return this.refilling.catch(() => undefined).then(() => this.refill(needMist));
+        }
+        this.refilling = this.doRefill(needMist).finally(() => {
+            this.refilling = undefined;
+        });
+        return this.refilling;
+    }
+
+    private refillInBackground() {
+        this.refill().catch((error) => console.error('[Gas Pool] Refill failed:', error.message || error));
+    }
+
+    private async doRefill(needMist?: bigint) {
+        const owner = this.signer.address;
+        const coins: PooledCoin[] = [];
+        let cursor: string | null | undefined;
+        do {
+            const page = await this.client.getCoins({ owner, coinType: '0x2::sui::SUI', cursor });
+            for (const c of page.data) {
+                coins.push({ objectId: c.coinObjectId, version: c.version, digest: c.digest, balance: BigInt(c.balance) });
+            }
+            cursor = page.hasNextPage ? page.nextCursor : null;
+        } while (cursor);
+
+        // Decide synchronously after the await so leases and GasStation reservations can't interleave
+        const free = coins
+            .filter((c) => !this.holds(c.objectId) && !this.isCoinLocked(c.objectId))
+            .sort((a, b) => (a.balance === b.balance ? 0 : a.balance > b.balance ? -1 : 1));
+        const [reserve, ...rest] = free;
+        if (!reserve) return;
+
+        // Coins come back from launches smaller than they left; when none left can fund `needMist`,
+        // the idle ones below it are retired and merged with the dust instead of blocking the pool
+        const short = needMist !== undefined && ![...this.idle.values(), ...rest].some((c) => c.balance >= needMist);
+        const retired = short ? [...this.idle.values()].filter((c) => c.balance < needMist!) : [];
+        retired.forEach((c) => this.idle.delete(c.objectId));
+        const mergeBelow = short ? needMist! : this.options.minCoinBalanceMist;
+
+        // Coins already in the target range join the pool as they are; the reserve stays out
+        for (const coin of rest) {
+            if (this.idle.size >= this.options.size) break;
+            if (coin.balance >= mergeBelow && coin.balance <= this.options.coinBalanceMist * 2n) {
+                this.idle.set(coin.objectId, coin);
+            }
+        }
+        if (this.idle.size) this.waiters.splice(0).forEach((wake) => wake());
+
+        const dust = [...retired, ...rest.filter((c) => c.balance < mergeBelow)].slice(0, MAX_MERGE_COINS);
+        let available = reserve.balance + dust.reduce((sum, c) => sum + c.balance, 0n) - MAINTENANCE_GAS_BUDGET;
+        const amounts: bigint[] = [];
+        if (short && needMist! > this.options.coinBalanceMist && available >= needMist!) {
+            amounts.push(needMist!);
+            available -= needMist!;
+        }
+        const wanted = Math.max(this.options.size - this.idle.size - amounts.length, short && !amounts.length ? 1 : 0);
+        const count = wanted > 0 && available > 0n ? Number(available / this.options.coinBalanceMist) : 0;
+        amounts.push(...Array.from({ length: Math.min(wanted, count) }, () => this.options.coinBalanceMist));
+        const splits = amounts.length;
+        if (splits <= 0 && dust.length === 0) return;
+
+        const used = [reserve, ...dust];
+        used.forEach((c) => this.maintenance.add(c.objectId));
+        try {
+            const tx = new Transaction();
+            tx.setSender(owner);
+            // Extra gas payment coins are merged into the first one, which cleans up the dust
+            tx.setGasPayment(used.map(({ objectId, version, digest }) => ({ objectId, version, digest })));
+            tx.setGasBudget(MAINTENANCE_GAS_BUDGET);
+            if (splits > 0) {
+                const newCoins = tx.splitCoins(tx.gas, amounts.map((amount) => tx.pure.u64(amount)));
+                tx.transferObjects(
+                    Array.from({ length: splits }, (_, i) => newCoins[i]),
+                    tx.pure.address(owner),
+                );
+            }
+
+            const bytes = await tx.build({ client: this.client });
+            const { signature } = await this.signer.signTransaction(bytes);
+            const result = await this.client.executeTransactionBlock({
+                transactionBlock: bytes,
+                signature,
+                requestType: 'WaitForLocalExecution',
+                options: { showEffects: true },
+            });
+            if (result.effects?.status.status === 'failure') {
+                throw new Error(`Gas pool refill ${result.digest} failed: ${result.effects.status.error ?? 'unknown error'}`);
+            }
+
+            const created = (result.effects?.created ?? []).map((c) => c.reference);
+            // Effects don't say which split made which coin; read balances back when they differ
+            const balances = amounts.every((a) => a === this.options.coinBalanceMist)
+                ? created.map(() => this.options.coinBalanceMist)
+                : (await this.client.multiGetObjects({ ids: created.map((c) => c.objectId), options: { showContent: true } }))
+                    .map((o) => BigInt((o.data?.content as any)?.fields?.balance ?? 0));
+            created.forEach(({ objectId, version, digest }, i) => {
+                this.idle.set(objectId, { objectId, version, digest, balance: balances[i] });
+            });
+            console.log(`[Gas Pool] Split ${splits} gas coin(s), merged ${dust.length} (${result.digest}).`);
+        } finally {
+            used.forEach((c) => this.maintenance.delete(c.objectId));
+            this.waiters.splice(0).forEach((wake) => wake());
+        }
+    }
+
+    private waitForRelease(deadline: number): Promise<void> {
+        const remaining = deadline - Date.now();
+        if (remaining <= 0) {
+            return Promise.reject(new Error(`Timed out waiting for a free gas coin (${this.leased.size} in use)`));
+        }
+        return new Promise((resolve) => {
+            const timer = setTimeout(resolve, remaining);
+            this.waiters.push(() => {
+                clearTimeout(timer);
+                resolve();
+            });
+        });
+    }
+}
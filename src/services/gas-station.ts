@@ -0,0 +1,199 @@
+//--- File: services/gas-station.ts ---
+
+import { randomUUID } from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { SuiClient } from '@mysten/sui/client';
+
+export interface GasStationLimits {
+    maxBudgetMist: bigint; // per transaction
+    dailyLimitMist: bigint; // all creators, per UTC day
+    creatorDailyLimitMist: bigint; // per sender address, per UTC day; advisory (see GasStation)
+    reservationTtlMs: number; // how long gas coins stay locked waiting for the creator's signature
+}
+
+interface GasReservation {
+    id: string;
+    sender: string;
+    day: string;
+    budget: bigint;
+    coinIds: string[];
+    expiresAt: number;
+}
+
+type ObjectRef = { objectId: string; version: string; digest: string };
+
+// ledger file: { [day]: { total: string, creators: { [address]: string } } }
+type SpendLedger = Record<string, { total: string; creators: Record<string, string> }>;
+
+/**
+ * Sponsors gas for creator-sent transactions from the server address.
+ * Gas coins are locked per reservation so two pending sponsored transactions never share
+ * (and equivocate on) a coin, and spend is capped per creator and per day. Reserved
+ * budgets count against the limits until the transaction settles or the reservation
+ * is released/expires; settled spend is persisted so a restart doesn't reset the caps.
+ *
+ * The per-creator cap is advisory: `sender` is whatever address the caller names, and the
+ * API has no per-creator credential to bind it to. Settled spend is only ever booked to a
+ * sender whose signature the node accepted, but anyone may reserve against an address (holding
+ * its allowance until the reservation expires) and a creator can spread launches over fresh
+ * addresses. The hard bounds on sponsor spend are `dailyLimitMist` and `maxBudgetMist`.
+ */
+export class GasStation {
+    private reservations = new Map<string, GasReservation>();
+    private ledger: SpendLedger = {};
+
+    constructor(
+        private client: SuiClient,
+        readonly owner: string,
+        private limits: GasStationLimits,
+        private ledgerPath: string,
+        // Coins owned by the sponsor but in use elsewhere (the server's gas coin pool)
+        private isCoinHeld: (coinId: string) => boolean = () => false,
+    ) {
+        if (fs.existsSync(ledgerPath)) {
+            this.ledger = JSON.parse(fs.readFileSync(ledgerPath, 'utf-8'));
+        } else {
+            fs.mkdirSync(path.dirname(ledgerPath), { recursive: true });
+        }
+    }
+
+    /** Lock sponsor coins covering the max budget for a transaction sent by `sender`. */
+    async reserve(sender: string): Promise<{ id: string; owner: string; coins: ObjectRef[]; maxBudget: bigint }> {
+        this.expireReservations();
+        const day = new Date().toISOString().slice(0, 10);
+        const budget = this.limits.maxBudgetMist;
+        this.checkLimits(sender, day, budget);
+
+        const locked = new Set([...this.reservations.values()].flatMap((r) => r.coinIds));
+        const coins: ObjectRef[] = [];
+        let total = 0n;
+        let cursor: string | null | undefined;
+        do {
+            const page = await this.client.getCoins({ owner: this.owner, coinType: '0x2::sui::SUI', cursor });
+            for (const coin of page.data) {
+                if (locked.has(coin.coinObjectId) || this.isCoinHeld(coin.coinObjectId)) continue;
+                coins.push({ objectId: coin.coinObjectId, version: coin.version, digest: coin.digest });
+                total += BigInt(coin.balance);
+                if (total >= budget) break;
+            }
+            cursor = page.hasNextPage ? page.nextCursor : null;
+        } while (total < budget && cursor);
+
+        if (total < budget) {
+            throw new Error(`Gas sponsor ${this.owner} has no unlocked SUI coins covering a ${budget} MIST budget`);
+        }
+
+        // Re-check after the awaits above: another reservation may have landed meanwhile
+        this.checkLimits(sender, day, budget);
+        const nowLocked = new Set([...this.reservations.values()].flatMap((r) => r.coinIds));
+        if (coins.some((c) => nowLocked.has(c.objectId) || this.isCoinHeld(c.objectId))) return this.reserve(sender);
+
+        const reservation: GasReservation = {
+            id: randomUUID(),
+            sender,
+            day,
+            budget,
+            coinIds: coins.map((c) => c.objectId),
+            expiresAt: Date.now() + this.limits.reservationTtlMs,
+        };
+        this.reservations.set(reservation.id, reservation);
+        return { id: reservation.id, owner: this.owner, coins, maxBudget: budget };
+    }
+
+    /** Narrow a reservation to the budget actually set on the built transaction. */
+    confirmBudget(id: string, budget: bigint) {
+        const r = this.reservations.get(id);
+        if (!r) throw new Error(`Gas reservation ${id} not found or expired`);
+        if (budget > this.limits.maxBudgetMist) {
+            throw new Error(`Gas budget ${budget} MIST exceeds the sponsor maximum of ${this.limits.maxBudgetMist} MIST`);
+        }
+        r.budget = budget;
+    }
+
+    /** Record the gas actually charged and unlock the coins. */
+    settle(id: string, gasUsedMist: bigint) {
+        const r = this.reservations.get(id);
+        if (!r) return;
+        this.reservations.delete(id);
+        const entry = (this.ledger[r.day] ??= { total: '0', creators: {} });
+        const spent = gasUsedMist > 0n ? gasUsedMist : 0n;
+        entry.total = (BigInt(entry.total) + spent).toString();
+        entry.creators[r.sender] = (BigInt(entry.creators[r.sender] ?? '0') + spent).toString();
+        this.flush();
+    }
+
+    /** False once a reservation expired or settled: its coins may already back another transaction. */
+    isActive(id: string): boolean {
+        this.expireReservations();
+        return this.reservations.has(id);
+    }
+
+    /** True while the coin backs a pending sponsored transaction. */
+    isLocked(coinId: string): boolean {
+        this.expireReservations();
+        return [...this.reservations.values()].some((r) => r.coinIds.includes(coinId));
+    }
+
+    /** Unlock the coins of a transaction that will never execute. */
+    release(id: string) {
+        this.reservations.delete(id);
+    }
+
+    usage(sender?: string) {
+        this.expireReservations();
+        const day = new Date().toISOString().slice(0, 10);
+        const [spent, reserved] = this.spentAndReserved(day);
+        return {
+            day,
+            totalMist: (spent.total + reserved.total).toString(),
+            dailyLimitMist: this.limits.dailyLimitMist.toString(),
+            creatorMist: sender ? ((spent.creators[sender] ?? 0n) + (reserved.creators[sender] ?? 0n)).toString() : undefined,
+            creatorDailyLimitMist: this.limits.creatorDailyLimitMist.toString(),
+            activeReservations: this.reservations.size,
+        };
+    }
+
+    private checkLimits(sender: string, day: string, budget: bigint) {
+        const [spent, reserved] = this.spentAndReserved(day);
+        if (spent.total + reserved.total + budget > this.limits.dailyLimitMist) {
+            throw new Error(`Daily gas sponsorship limit of ${this.limits.dailyLimitMist} MIST reached`);
+        }
+        const creator = (spent.creators[sender] ?? 0n) + (reserved.creators[sender] ?? 0n);
+        if (creator + budget > this.limits.creatorDailyLimitMist) {
+            throw new Error(
+                `Daily gas sponsorship limit of ${this.limits.creatorDailyLimitMist} MIST reached for ${sender}`,
+            );
+        }
+    }
+
+    private spentAndReserved(day: string) {
+        const entry = this.ledger[day];
+        const spent = {
+            total: BigInt(entry?.total ?? '0'),
+            creators: Object.fromEntries(
+                Object.entries(entry?.creators ?? {}).map(([k, v]) => [k, BigInt(v)]),
+            ) as Record<string, bigint>,
+        };
+        const reserved = { total: 0n, creators: {} as Record<string, bigint> };
+        for (const r of this.reservations.values()) {
+            if (r.day !== day) continue;
+            reserved.total += r.budget;
+            reserved.creators[r.sender] = (reserved.creators[r.sender] ?? 0n) + r.budget;
+        }
+        return [spent, reserved] as const;
+    }
+
+    private expireReservations() {
+        const now = Date.now();
+        for (const [id, r] of this.reservations) {
+            if (r.expiresAt <= now) this.reservations.delete(id);
+        }
+    }
+
+    private flush() {
+        const tmp = `${this.ledgerPath}.tmp`;
+        fs.writeFileSync(tmp, JSON.stringify(this.ledger, null, 2));
+        fs.renameSync(tmp, this.ledgerPath);
+    }
+}
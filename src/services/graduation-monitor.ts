@@ -0,0 +1,185 @@
+//--- File: services/graduation-monitor.ts ---
+
+import { GraduationAttempt, GraduationState, LaunchJob } from '../types';
+import { LaunchStore } from './launch-store';
+import { formatRatio, parseUnits } from './move-values';
+import { SuiBlockchainService } from './sui-blockchain';
+
+export interface GraduationMonitorOptions {
+    pollMs: number;
+    maxAttempts: number; // automatic migration attempts before the launch is marked failed
+    retryDelayMs: number; // before the first retry; doubles after every failed attempt
+}
+
+/**
+ * Watches every registered launch's IAO until it reaches targetGoalSui, then submits the
+ * migration to Cetus. Progress and every migration attempt are written to the launch job
+ * (`graduation`), so retries and their backoff survive a restart. When the event indexer
+ * already saw the IAO graduate (e.g. someone else migrated it), the launch is marked
+ * migrated without submitting anything.
+ */
+export class GraduationMonitor {
+    private timer?: NodeJS.Timeout;
+    private running = false;
+    private migrating = new Set<string>();
+
+    constructor(
+        private store: LaunchStore,
+        private sui: SuiBlockchainService,
+        private options: GraduationMonitorOptions,
+        private graduatedOnChain: (coinType: string) => { digest: string; cetusPoolId?: string } | undefined = () =>
+            undefined,
+    ) {}
+
+    start() {
+        if (this.running) return;
+        this.running = true;
+        // A migration cut short by a restart may or may not have landed; the next check or attempt tells
+        for (const job of this.tracked()) {
+            if (job.graduation?.status === 'migrating') this.save(job.id, { ...job.graduation, status: 'tracking' });
+        }
+        void this.tick();
+    }
+
+    stop() {
+        this.running = false;
+        clearTimeout(this.timer);
+    }
+
+    /** Registered launches with their graduation state, closest to the goal first. */
+    list(): LaunchJob[] {
+        return this.tracked().sort(
+            (a, b) => Number(b.graduation?.progressPct ?? 0) - Number(a.graduation?.progressPct ?? 0),
+        );
+    }
+
+    /** Re-read one launch's progress now. */
+    async check(id: string): Promise<LaunchJob> {
+        const job = this.store.get(id);
+        if (!job?.register?.poolId || !job.publish) throw new Error(`Launch job ${id} has no registered IAO`);
+        return this.refresh(job);
+    }
+
+    /**
+     * Operator-triggered migration: runs regardless of progress and of exhausted automatic
+     * attempts. Errors carry `conflict` when the launch already migrated or one is running.
+     */
+    async migrate(id: string): Promise<LaunchJob> {
+        const job = this.store.get(id);
+        if (!job?.register?.poolId || !job.publish) throw new Error(`Launch job ${id} has no registered IAO`);
+        if (job.graduation?.status === 'migrated' || this.migrating.has(id)) {
+            throw Object.assign(new Error(`Launch job ${id} is already ${job.graduation?.status ?? 'migrating'}`), {
+                conflict: true,
+            });
+        }
+        return this.attempt(job, 'manual');
+    }
+
+    private tracked(): LaunchJob[] {
+        return this.store.list().filter((job) => job.status === 'registered' && job.register?.poolId && job.publish);
+    }
+
+    private async tick() {
+        for (const job of this.tracked()) {
+            if (!this.running) break;
+            if (job.graduation?.status === 'migrated' || this.migrating.has(job.id)) continue;
+            try {
+                const next = await this.refresh(job);
+                if (this.due(next)) await this.attempt(next, 'auto');
+            } catch (error: any) {
+                console.error(`[Graduation] Job ${job.id} check failed:`, error.message || error);
+            }
+        }
+        if (this.running) this.timer = setTimeout(() => void this.tick(), this.options.pollMs);
+    }
+
+    // Goal reached, attempts left and past the backoff of the last failure
+    private due(job: LaunchJob): boolean {
+        const g = job.graduation;
+        if (!g || g.status !== 'tracking' || g.raisedMist === undefined) return false;
+        if (BigInt(g.raisedMist) < BigInt(g.targetMist)) return false;
+        return !g.nextAttemptAt || Date.parse(g.nextAttemptAt) <= Date.now();
+    }
+
+    private async refresh(job: LaunchJob): Promise<LaunchJob> {
+        const seen = this.graduatedOnChain(job.publish!.coinType);
+        if (seen && job.graduation?.status !== 'migrated') {
+            console.log(`[Graduation] Job ${job.id}: IAO already graduated on chain (${seen.digest})`);
+            const { digest, cetusPoolId } = seen;
+            return this.save(job.id, { ...this.state(job), status: 'migrated', digest, cetusPoolId });
+        }
+
+        let raised: bigint;
+        try {
+            raised = await this.sui.getIaoRaisedMist(job.register!.poolId, job.publish!.coinType);
+        } catch (error: any) {
+            const lastCheckError = error.message || String(error);
+            this.save(job.id, { ...this.latestState(job.id), checkedAt: new Date().toISOString(), lastCheckError });
+            throw error;
+        }
+        // Re-read: a manual migration may have changed the state while the IAO was being read
+        const current = this.latestState(job.id);
+        return this.save(job.id, {
+            ...current,
+            raisedMist: raised.toString(),
+            progressPct: formatRatio(raised * 100n, BigInt(current.targetMist), 2),
+            checkedAt: new Date().toISOString(),
+            lastCheckError: undefined,
+        });
+    }
+
+    private async attempt(job: LaunchJob, trigger: GraduationAttempt['trigger']): Promise<LaunchJob> {
+        const state = this.state(job);
+        this.migrating.add(job.id);
+        this.save(job.id, { ...state, status: 'migrating' });
+        console.log(`[Graduation] Job ${job.id}: migrating IAO ${job.register!.poolId} to Cetus (${trigger})`);
+
+        const at = new Date().toISOString();
+        try {
+            const { digest, cetusPoolId } = await this.sui.migrateToCetus(job.register!.poolId, job.publish!.coinType);
+            console.log(`[Graduation] Job ${job.id}: migrated (${digest}), Cetus pool ${cetusPoolId}`);
+            return this.save(job.id, {
+                ...state,
+                status: 'migrated',
+                attempts: [...state.attempts, { at, trigger, ok: true, digest }],
+                nextAttemptAt: undefined,
+                digest,
+                cetusPoolId,
+                migratedAt: new Date().toISOString(),
+            });
+        } catch (error: any) {
+            const attempts = [
+                ...state.attempts,
+                { at, trigger, ok: false, error: error?.message || String(error), abort: error?.moveAbort },
+            ];
+            const failures = attempts.filter((a) => !a.ok && a.trigger === 'auto').length;
+            const exhausted = failures >= this.options.maxAttempts;
+            const delay = this.options.retryDelayMs * 2 ** Math.max(failures - 1, 0);
+            console.error(`[Graduation] Job ${job.id}: migration attempt failed:`, error?.message || error);
+            return this.save(job.id, {
+                ...state,
+                status: exhausted ? 'failed' : 'tracking',
+                attempts,
+                nextAttemptAt: exhausted ? undefined : new Date(Date.now() + delay).toISOString(),
+            });
+        } finally {
+            this.migrating.delete(job.id);
+        }
+    }
+
+    private state(job: LaunchJob): GraduationState {
+        return job.graduation ?? {
+            status: 'tracking',
+            targetMist: parseUnits(job.createParams.targetGoalSui, 9).toString(),
+            attempts: [],
+        };
+    }
+
+    private latestState(id: string): GraduationState {
+        return this.state(this.store.get(id)!);
+    }
+
+    private save(id: string, graduation: GraduationState): LaunchJob {
+        return this.store.update(id, { graduation });
+    }
+}
@@ -0,0 +1,361 @@
+//--- File: services/launch-queue.ts ---
+
+import { IdolCreateRequest, IdolTokenParams, LaunchJob, LaunchStep } from '../types';
+import { coinTemplateFor, DEFAULT_COIN_TEMPLATE } from './coin-templates';
+import { LaunchStore } from './launch-store';
+import { parseUnits } from './move-values';
+import { SuiBlockchainService } from './sui-blockchain';
+import { WebhookNotifier } from './webhook-notifier';
+
+// setTimeout stores delays as int32; longer waits re-arm when the timer fires
+const MAX_TIMER_MS = 2 ** 31 - 1;
+
+// wallet and sponsored jobs both wait for the creator's signature on every step
+function signedByCreator(job: LaunchJob): boolean {
+    return job.signerMode === 'wallet' || job.signerMode === 'sponsored';
+}
+
+// Coin metadata baked into the token module (also used for launch previews)
+export function tokenParams(createParams: IdolCreateRequest): IdolTokenParams {
+    return {
+        ticker: createParams.ticker,
+        name: createParams.name,
+        description: createParams.description,
+        // Validation accepts "9" as well as 9; the templates need a JS integer
+        decimals: Number(createParams.decimals),
+        imageUrl: createParams.imageUrl || 'https://idol.fun/default-icon.png',
+        profile: {
+            xHandle: createParams.xHandle,
+            character: createParams.character,
+            setting: createParams.setting,
+            idolType: createParams.idolType,
+            targetGoalMist: parseUnits(createParams.targetGoalSui, 9).toString(),
+        },
+        template: createParams.coinTemplate ?? DEFAULT_COIN_TEMPLATE,
+        totalSupply: BigInt(createParams.totalSupply).toString(),
+    };
+}
+
+/**
+ * Drives persisted launch jobs through publish -> register.
+ * Each step's result is written to the store before the next step starts, so a job that
+ * was interrupted (crash, restart, registerAsset failure) resumes at the step where it
+ * stopped and reuses the already-published packageId/treasuryCapId.
+ *
+ * Wallet-mode jobs take the same path, but each step stops at a built transaction
+ * (`pendingTx`) until the creator's signature comes back through submitSigned.
+ *
+ * Scheduled jobs publish right away and park in `published` until `scheduledAt`, when a
+ * timer runs them again for launch_idol (wallet jobs get their launch_idol bytes then).
+ *
+ * Coin templates that open no IAO (fixed_supply, capped_mint) go straight from publish to `completed`.
+ */
+export class LaunchQueue {
+    private inFlight = new Map<string, Promise<LaunchJob>>();
+    private timers = new Map<string, NodeJS.Timeout>();
+
+    constructor(
+        private store: LaunchStore,
+        private sui: SuiBlockchainService,
+        private notifier?: WebhookNotifier,
+    ) {}
+
+    /**
+     * Run (or attach to) a job: server-mode jobs run until registered or failed; wallet-mode
+     * jobs run until the next transaction is built and waiting for a signature.
+     */
+    run(id: string): Promise<LaunchJob> {
+        const running = this.inFlight.get(id);
+        if (running) return running;
+
+        const job = this.store.get(id);
+        // Cancelled jobs never run again, whoever asks
+        if (job?.status === 'cancelled') return Promise.resolve(job);
+        const work = job && signedByCreator(job) ? this.prepareWalletStep(id) : this.process(id);
+        return this.track(id, work);
+    }
+
+    /** Submit the creator's signature for the job's pending transaction. */
+    submitSigned(id: string, signature: string | string[]): Promise<LaunchJob> {
+        if (this.inFlight.has(id)) {
+            return Promise.reject(new Error(`Launch job ${id} is busy; try again shortly`));
+        }
+        return this.track(id, this.processSigned(id, signature));
+    }
+
+    private track(id: string, work: Promise<LaunchJob>): Promise<LaunchJob> {
+        const p = work
+            .then((job) => {
+                if (job.status === 'registered' || job.status === 'completed' || job.status === 'failed') this.notify(job);
+                return job;
+            })
+            .finally(() => this.inFlight.delete(id));
+        this.inFlight.set(id, p);
+        return p;
+    }
+
+    /** Re-queue a failed job; it restarts at the step that failed. */
+    retry(id: string): Promise<LaunchJob> {
+        const job = this.store.get(id);
+        if (!job) throw new Error(`Launch job not found: ${id}`);
+        if (job.status === 'failed') {
+            this.sui.releaseSponsorship(job.pendingTx?.gasReservationId);
+            this.store.update(id, {
+                status: job.publish ? 'published' : 'queued',
+                error: undefined,
+                pendingTx: undefined,
+            });
+        }
+        return this.run(id);
+    }
+
+    /**
+     * Move a launch that hasn't gone live to a new instant (its createParams carry the new
+     * launchDate/launchTime/countdownMinutes). A wallet job's already-built launch_idol bytes
+     * are dropped and rebuilt at the new time.
+     */
+    reschedule(id: string, createParams: LaunchJob['createParams'], scheduledAt: Date): LaunchJob {
+        const job = this.assertNotLive(id, 'reschedule');
+        if (job.pendingTx?.step === 'register') this.sui.releaseSponsorship(job.pendingTx.gasReservationId);
+        const next = this.store.update(id, {
+            createParams,
+            scheduledAt: scheduledAt.toISOString(),
+            pendingTx: job.pendingTx?.step === 'register' ? undefined : job.pendingTx,
+        });
+        console.log(`[Launch Queue] Job ${id} rescheduled to ${next.scheduledAt}`);
+        if (next.status === 'published' && !this.inFlight.has(id)) {
+            this.run(id).catch(() => {
+                // failure is already recorded on the job
+            });
+        }
+        return next;
+    }
+
+    /** Cancel a launch before launch_idol goes out; a package published ahead of time stays on chain. */
+    cancel(id: string): LaunchJob {
+        const job = this.assertNotLive(id, 'cancel');
+        if (this.inFlight.has(id)) {
+            throw Object.assign(new Error(`Launch job ${id} is publishing; cancel it once that finishes`), {
+                conflict: true,
+            });
+        }
+        this.clearTimer(id);
+        this.sui.releaseSponsorship(job.pendingTx?.gasReservationId);
+        console.log(`[Launch Queue] Job ${id} (idol ${job.idolId}) cancelled at status "${job.status}"`);
+        return this.store.update(id, { status: 'cancelled', currentStep: undefined, pendingTx: undefined });
+    }
+
+    /** Jobs with a launch time still ahead of them, soonest first. */
+    listScheduled(): LaunchJob[] {
+        const now = Date.now();
+        return this.store
+            .list()
+            .filter((job) => (job.status === 'queued' || job.status === 'published') && job.scheduledAt)
+            .filter((job) => Date.parse(job.scheduledAt!) > now)
+            .sort((a, b) => a.scheduledAt!.localeCompare(b.scheduledAt!));
+    }
+
+    // Reschedule/cancel only apply while launch_idol hasn't started
+    private assertNotLive(id: string, action: string): LaunchJob {
+        const job = this.store.get(id);
+        if (!job) throw new Error(`Launch job not found: ${id}`);
+        if (job.status !== 'queued' && job.status !== 'published') {
+            throw Object.assign(new Error(`Cannot ${action} a launch in status "${job.status}"`), { conflict: true });
+        }
+        if (job.currentStep === 'register') {
+            throw Object.assign(new Error(`Cannot ${action}: launch_idol is already executing`), { conflict: true });
+        }
+        return job;
+    }
+
+    // True (and a timer armed) when the job must wait for scheduledAt before launch_idol
+    private waitForSchedule(job: LaunchJob): boolean {
+        const delay = job.scheduledAt ? Date.parse(job.scheduledAt) - Date.now() : 0;
+        if (delay <= 0) return false;
+        this.clearTimer(job.id);
+        const timer = setTimeout(() => {
+            this.timers.delete(job.id);
+            this.run(job.id).catch(() => {
+                // failure is already recorded on the job
+            });
+        }, Math.min(delay, MAX_TIMER_MS));
+        this.timers.set(job.id, timer);
+        console.log(`[Launch Queue] Job ${job.id}: launch_idol scheduled for ${job.scheduledAt}`);
+        return true;
+    }
+
+    private clearTimer(id: string) {
+        clearTimeout(this.timers.get(id));
+        this.timers.delete(id);
+    }
+
+    /** Called at startup: pick up every job that was still mid-pipeline when the process stopped. */
+    resumePending() {
+        for (const job of this.store.list()) {
+            if (job.status !== 'queued' && job.status !== 'published') continue;
+            // Wallet jobs wait for the creator; their pending bytes are still in the store
+            if (signedByCreator(job) && job.pendingTx) continue;
+            console.log(`[Launch Queue] Resuming job ${job.id} (idol ${job.idolId}) at status "${job.status}"`);
+            this.run(job.id).catch(() => {
+                // failure is already recorded on the job
+            });
+        }
+    }
+
+    private async process(id: string): Promise<LaunchJob> {
+        let job = this.store.get(id);
+        if (!job) throw new Error(`Launch job not found: ${id}`);
+        job = this.store.update(id, { attempts: job.attempts + 1 });
+
+        const { idolId, createParams } = job;
+
+        if (job.status === 'queued') {
+            try {
+                this.store.update(id, { currentStep: 'publish' });
+                // A publish submitted before a crash or failed wait may have landed: reuse it
+                let publish = job.publishTx && (await this.sui.recoverPublish(job.publishTx));
+                if (publish) {
+                    console.log(`[Launch Queue] Recovered publish ${job.publishTx!.digest} for idol ID: ${idolId}`);
+                } else {
+                    if (job.publishTx) console.log(`[Launch Queue] Publish ${job.publishTx.digest} never landed; publishing again`);
+                    console.log(`[Launch Queue] STEP 1: Publishing token package for idol ID: ${idolId}...`);
+                    publish = await this.sui.publishIdolTokenPackage(tokenParams(createParams), (publishTx) =>
+                        this.store.update(id, { publishTx }),
+                    );
+                }
+                job = this.store.update(id, { status: 'published', currentStep: undefined, publish, publishTx: undefined });
+                console.log(`[Launch Queue] Token package published for idol ID: ${idolId}. Package ID: ${publish.packageId}`);
+            } catch (error: any) {
+                return this.fail(id, 'publish', error);
+            }
+        }
+
+        if (job.status === 'published' && job.publish && !coinTemplateFor(createParams).launchesIao) {
+            return this.complete(id);
+        }
+
+        if (job.status === 'published' && job.publish) {
+            if (this.waitForSchedule(job)) return job;
+            try {
+                this.store.update(id, { currentStep: 'register' });
+                console.log(`[Launch Queue] STEP 2: Registering asset with IAO protocol for idol ID: ${idolId}...`);
+                const register = await this.sui.registerAsset(job.publish, createParams);
+                job = this.store.update(id, { status: 'registered', currentStep: undefined, register });
+                console.log(`[Launch Queue] Asset registered for idol ID: ${idolId}. Pool ID: ${register.poolId}`);
+            } catch (error: any) {
+                return this.fail(id, 'register', error);
+            }
+        }
+
+        return job;
+    }
+
+    // Build the transaction for the job's next step and park it for the creator to sign
+    private async prepareWalletStep(id: string): Promise<LaunchJob> {
+        const job = this.store.get(id);
+        if (!job) throw new Error(`Launch job not found: ${id}`);
+        if (!job.sender) throw new Error(`Wallet launch job ${id} has no sender address`);
+
+        const step: LaunchStep = job.status === 'queued' ? 'publish' : 'register';
+        if (job.status !== 'queued' && !(job.status === 'published' && job.publish)) return job;
+        if (step === 'register' && !coinTemplateFor(job.createParams).launchesIao) return this.complete(id);
+        if (step === 'register' && this.waitForSchedule(job)) return job;
+
+        try {
+            this.store.update(id, { currentStep: step });
+            const builtAt = new Date().toISOString();
+            const opts = { sponsored: job.signerMode === 'sponsored' };
+            if (step === 'publish') {
+                const built = await this.sui.buildUnsignedPublish(tokenParams(job.createParams), job.sender, opts);
+                console.log(`[Launch Queue] Job ${id}: publish transaction built for ${job.sender}, awaiting signature`);
+                return this.store.update(id, { currentStep: undefined, pendingTx: { step, ...built, builtAt } });
+            }
+            const built = await this.sui.buildUnsignedRegister(job.publish!, job.createParams, job.sender, opts);
+            console.log(`[Launch Queue] Job ${id}: launch_idol transaction built for ${job.sender}, awaiting signature`);
+            return this.store.update(id, { currentStep: undefined, pendingTx: { step, ...built, builtAt } });
+        } catch (error: any) {
+            return this.fail(id, step, error);
+        }
+    }
+
+    private async processSigned(id: string, signature: string | string[]): Promise<LaunchJob> {
+        let job = this.store.get(id);
+        if (!job) throw new Error(`Launch job not found: ${id}`);
+        const pending = job.pendingTx;
+        if (!signedByCreator(job) || !pending) {
+            throw new Error(`Launch job ${id} has no transaction awaiting a signature`);
+        }
+        job = this.store.update(id, { attempts: job.attempts + 1, currentStep: pending.step });
+
+        try {
+            if (pending.step === 'publish') {
+                const publish = await this.sui.submitSignedPublish(
+                    { ...pending, moduleName: pending.moduleName!, structName: pending.structName! },
+                    signature,
+                );
+                this.store.update(id, { status: 'published', currentStep: undefined, pendingTx: undefined, publish });
+                console.log(`[Launch Queue] Job ${id}: wallet publish landed. Package ID: ${publish.packageId}`);
+                return this.prepareWalletStep(id);
+            }
+
+            const register = await this.sui.submitSignedRegister(pending, signature, job.publish!.coinType);
+            console.log(`[Launch Queue] Job ${id}: wallet launch_idol landed. Pool ID: ${register.poolId}`);
+            return this.store.update(id, { status: 'registered', currentStep: undefined, pendingTx: undefined, register });
+        } catch (error: any) {
+            if (error?.expired) {
+                // Sponsored bytes outlived their gas lock: build fresh ones for the same step
+                this.store.update(id, { currentStep: undefined, pendingTx: undefined });
+                await this.prepareWalletStep(id);
+                throw error;
+            }
+            if (error?.rejected) {
+                // Nothing executed; keep the pending bytes so the creator can sign again
+                this.store.update(id, { currentStep: undefined });
+                throw error;
+            }
+            return this.fail(id, pending.step, error);
+        }
+    }
+
+    // The coin's template opens no IAO: the published package is the whole launch
+    private complete(id: string): LaunchJob {
+        const job = this.store.update(id, { status: 'completed', currentStep: undefined, scheduledAt: undefined });
+        console.log(`[Launch Queue] Job ${id} (idol ${job.idolId}) completed; the ${job.publish?.template} coin opens no IAO`);
+        return job;
+    }
+
+    private fail(id: string, step: LaunchStep, error: any): LaunchJob {
+        const message = error?.message || String(error);
+        console.error(`[Launch Queue] Job ${id} failed at ${step}:`, message);
+        this.sui.releaseSponsorship(this.store.get(id)?.pendingTx?.gasReservationId);
+        return this.store.update(id, {
+            status: 'failed',
+            currentStep: undefined,
+            pendingTx: undefined,
+            error: { step, message, abort: error?.moveAbort },
+        });
+    }
+
+    // Fire-and-forget: webhook delivery never affects the launch outcome
+    private notify(job: LaunchJob) {
+        if (!job.callbackUrl) return;
+        if (!this.notifier) {
+            // Only jobs stored before WEBHOOK_SECRET was unset get here; never deliver them unsigned
+            console.warn(`[Launch Queue] Webhook for job ${job.id} not sent: WEBHOOK_SECRET is not set`);
+            return;
+        }
+        const event = job.status === 'failed' ? 'launch.failed' : 'launch.completed';
+        this.notifier
+            .send(job.callbackUrl, event, LaunchStore.view(job))
+            .then((delivery) => {
+                this.store.update(job.id, {
+                    webhook: {
+                        attempts: (job.webhook?.attempts ?? 0) + delivery.attempts,
+                        deliveredAt: delivery.ok ? new Date().toISOString() : undefined,
+                        lastError: delivery.error,
+                    },
+                });
+            })
+            .catch((e) => console.error(`[Launch Queue] Webhook for job ${job.id} errored:`, e));
+    }
+}
@@ -0,0 +1,57 @@
+//--- File: services/launch-schedule.ts ---
+
+import { IdolCreateRequest } from '../types';
+
+export const DEFAULT_LAUNCH_TIME_ZONE = 'UTC';
+
+/** True for IANA zone names the runtime knows (e.g. "UTC", "Asia/Tokyo"). */
+export function isValidTimeZone(timeZone: string): boolean {
+    try {
+        new Intl.DateTimeFormat('en-US', { timeZone });
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+// Offset of `timeZone` from UTC at the given instant, in ms
+function zoneOffsetMs(instant: number, timeZone: string): number {
+    const parts = new Intl.DateTimeFormat('en-US', {
+        timeZone,
+        hourCycle: 'h23',
+        year: 'numeric',
+        month: '2-digit',
+        day: '2-digit',
+        hour: '2-digit',
+        minute: '2-digit',
+        second: '2-digit',
+    }).formatToParts(new Date(instant));
+    const get = (type: string) => Number(parts.find((p) => p.type === type)!.value);
+    const asUtc = Date.UTC(get('year'), get('month') - 1, get('day'), get('hour'), get('minute'), get('second'));
+    return asUtc - Math.floor(instant / 1000) * 1000;
+}
+
+/**
+ * Wall-clock date (YYYY-MM-DD) and time (HH:MM[:SS]) in `timeZone` to a UTC instant.
+ * Times skipped by a DST jump resolve forward by the size of the jump.
+ */
+export function zonedTimeToUtc(date: string, time: string, timeZone: string): Date {
+    const [y, mo, d] = date.split('-').map(Number);
+    const [h, mi, s = 0] = time.split(':').map(Number);
+    const wallClock = Date.UTC(y, mo - 1, d, h, mi, s);
+    // The offset at the first guess can differ from the offset at the result around DST changes
+    const first = wallClock - zoneOffsetMs(wallClock, timeZone);
+    const second = wallClock - zoneOffsetMs(first, timeZone);
+    // `second` only maps back to the requested wall clock if that time exists; otherwise keep `first`
+    return new Date(second + zoneOffsetMs(second, timeZone) === wallClock ? second : first);
+}
+
+/**
+ * When launch_idol goes live: launchDate + launchTime in launchTimeZone (UTC when unset)
+ * marks the start of the countdown, and the launch fires countdownMinutes later.
+ */
+export function launchGoLiveAt(createParams: IdolCreateRequest): Date {
+    const timeZone = createParams.launchTimeZone || DEFAULT_LAUNCH_TIME_ZONE;
+    const start = zonedTimeToUtc(createParams.launchDate, createParams.launchTime, timeZone);
+    return new Date(start.getTime() + Number(createParams.countdownMinutes || 0) * 60_000);
+}
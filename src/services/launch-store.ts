@@ -0,0 +1,152 @@
+//--- File: services/launch-store.ts ---
+
+import { randomUUID } from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { IdolCreateRequest, LaunchJob, LaunchSignerMode } from '../types';
+
+/**
+ * File-backed store for launch jobs.
+ * The whole set is kept in memory and flushed to a single JSON file on every change
+ * (write to a temp file + rename, so a crash mid-write never leaves a truncated store).
+ */
+export class LaunchStore {
+    private jobs = new Map<string, LaunchJob>();
+    private byKey = new Map<string, string>();
+
+    constructor(private filePath: string) {
+        if (fs.existsSync(filePath)) {
+            const parsed = JSON.parse(fs.readFileSync(filePath, 'utf-8')) as LaunchJob[];
+            for (const job of parsed) {
+                this.jobs.set(job.id, job);
+                this.index(job);
+            }
+        } else {
+            fs.mkdirSync(path.dirname(filePath), { recursive: true });
+        }
+    }
+
+    static keyForIdol(idolId: number): string {
+        return `idol:${idolId}`;
+    }
+
+    create(
+        idolId: number,
+        createParams: IdolCreateRequest,
+        opts: {
+            callbackUrl?: string;
+            idempotencyKey?: string;
+            signerMode?: LaunchSignerMode;
+            sender?: string;
+            scheduledAt?: string;
+        } = {},
+    ): LaunchJob {
+        const idempotencyKey = opts.idempotencyKey || LaunchStore.keyForIdol(idolId);
+        for (const key of new Set([idempotencyKey, LaunchStore.keyForIdol(idolId)])) {
+            if (this.byKey.has(key)) throw new Error(`A launch already exists for idempotency key "${key}"`);
+        }
+        const now = new Date().toISOString();
+        const job: LaunchJob = {
+            id: randomUUID(),
+            idolId,
+            idempotencyKey,
+            createParams,
+            signerMode: opts.signerMode ?? 'server',
+            sender: opts.sender,
+            status: 'queued',
+            scheduledAt: opts.scheduledAt,
+            attempts: 0,
+            callbackUrl: opts.callbackUrl,
+            createdAt: now,
+            updatedAt: now,
+        };
+        this.jobs.set(job.id, job);
+        this.index(job);
+        this.flush();
+        return job;
+    }
+
+    get(id: string): LaunchJob | undefined {
+        return this.jobs.get(id);
+    }
+
+    findByKey(idempotencyKey: string): LaunchJob | undefined {
+        const id = this.byKey.get(idempotencyKey);
+        return id ? this.jobs.get(id) : undefined;
+    }
+
+    /** Job for a launch request: the one behind its Idempotency-Key, else any launch of the idol. */
+    findForRequest(idolId: number, idempotencyKey?: string): LaunchJob | undefined {
+        return (idempotencyKey && this.findByKey(idempotencyKey)) || this.findByKey(LaunchStore.keyForIdol(idolId));
+    }
+
+    findByCoinType(coinType: string): LaunchJob | undefined {
+        return this.list().find((job) => job.publish?.coinType === coinType);
+    }
+
+    findByPackageId(packageId: string): LaunchJob | undefined {
+        return this.list().find((job) => job.publish?.packageId === packageId);
+    }
+
+    list(): LaunchJob[] {
+        return [...this.jobs.values()].sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+    }
+
+    update(id: string, patch: Partial<Omit<LaunchJob, 'id' | 'createdAt'>>): LaunchJob {
+        const job = this.jobs.get(id);
+        if (!job) throw new Error(`Launch job not found: ${id}`);
+        const next: LaunchJob = { ...job, ...patch, updatedAt: new Date().toISOString() };
+        this.jobs.set(id, next);
+        this.flush();
+        return next;
+    }
+
+    /** Public representation of a job, shared by the status endpoint and webhooks. */
+    static view(job: LaunchJob) {
+        return {
+            jobId: job.id,
+            idolId: job.idolId,
+            status: job.status,
+            scheduledAt: job.scheduledAt,
+            signerMode: job.signerMode ?? 'server',
+            sender: job.sender,
+            currentStep: job.currentStep,
+            // wallet mode: the next transaction to sign and POST back to /launches/:id/signed
+            pendingStep: job.pendingTx?.step,
+            pendingTxBytes: job.pendingTx?.txBytes,
+            attempts: job.attempts,
+            error: job.error,
+            publishDigest: job.publish?.digest ?? job.publishTx?.digest,
+            packageId: job.publish?.packageId,
+            treasuryCapId: job.publish?.treasuryCapId,
+            coinMetadataId: job.publish?.coinMetadataId,
+            moduleName: job.publish?.moduleName,
+            structName: job.publish?.structName,
+            coinType: job.publish?.coinType,
+            profileId: job.publish?.profileId,
+            upgradeCapId: job.publish?.upgradeCapId,
+            immutable: job.publish?.immutable,
+            coinTemplate: job.publish?.template ?? job.createParams.coinTemplate ?? 'standard',
+            capabilities: job.publish?.capabilities,
+            digest: job.register?.digest,
+            poolId: job.register?.poolId,
+            lpCapId: job.register?.lpCapId,
+            creatorTokensId: job.register?.creatorTokensId,
+            graduation: job.graduation,
+            createdAt: job.createdAt,
+            updatedAt: job.updatedAt,
+        };
+    }
+
+    // An idol has one launch whatever key created it, so jobs are indexed under both
+    private index(job: LaunchJob) {
+        this.byKey.set(LaunchStore.keyForIdol(job.idolId), job.id);
+        if (job.idempotencyKey) this.byKey.set(job.idempotencyKey, job.id);
+    }
+
+    private flush() {
+        const tmp = `${this.filePath}.tmp`;
+        fs.writeFileSync(tmp, JSON.stringify(this.list(), null, 2));
+        fs.renameSync(tmp, this.filePath);
+    }
+}
@@ -0,0 +1,170 @@
+//--- File: services/move-aborts.ts ---
+
+import fs from 'fs';
+import { normalizeSuiAddress } from '@mysten/sui/utils';
+import { DecodedMoveAbort, MoveAbort } from '../types';
+
+// One catalog row; omitted fields match anything. The most specific matching row wins.
+export interface AbortCatalogEntry {
+    module: string;
+    function?: string;
+    code?: number;
+    address?: string; // restrict to one package, e.g. 0x2 for framework aborts
+    errorCode: string; // stable identifier clients branch on
+    status: number; // HTTP status the API answers with
+    message: string;
+}
+
+// Raw VM status: MoveAbort(MoveLocation { module: ModuleId { address, name }, ..., function_name }, code) in command N
+const MOVE_ABORT_RAW =
+    /MoveAbort\(MoveLocation \{ module: ModuleId \{ address: (?:0x)?([0-9a-fA-F]+), name: Identifier\("(\w+)"\) \}, function: \d+, instruction: \d+, function_name: (?:Some\("(\w+)"\)|None) \}, (\d+)\)(?: in command (\d+))?/;
+// Rendered by newer nodes: MoveAbort in 2nd command, abort code: 3, in '0x..::module::function' (instruction 7)
+const MOVE_ABORT_RENDERED = /MoveAbort in (\d+)\w* command, abort code: (\d+), in '(0x[0-9a-fA-F]+)::(\w+)::(\w+)'/;
+
+// Sui framework aborts
+const FRAMEWORK_CATALOG: AbortCatalogEntry[] = [
+    {
+        module: 'balance',
+        function: 'split',
+        code: 2, // ENotEnough
+        address: '0x2',
+        errorCode: 'INSUFFICIENT_BALANCE',
+        status: 402,
+        message: 'A coin does not hold enough balance for this transaction.',
+    },
+    {
+        module: 'dynamic_field',
+        code: 0, // EFieldAlreadyExists
+        address: '0x2',
+        errorCode: 'ALREADY_EXISTS',
+        status: 409,
+        message: 'The object being registered already exists.',
+    },
+    {
+        module: 'dynamic_field',
+        code: 1, // EFieldDoesNotExist
+        address: '0x2',
+        errorCode: 'NOT_FOUND',
+        status: 404,
+        message: 'A required registry entry does not exist.',
+    },
+];
+
+// Packages the factory/pools rows belong to; Cetus has config and factory modules too
+export interface AbortCatalogPackages {
+    factory: string; // FACTORY_PACKAGE_ID: factory, config, iao
+    pools?: string; // POOLS_PACKAGE_ID: pools and the bonding curve; their rows are skipped when unset
+    bondingCurveModule?: string; // BONDING_CURVE_MODULE, defaults to bonding_curve
+}
+
+// Known aborts. The factory/iao/pools/bonding_curve packages aren't in this repo, so their
+// individual codes come from MOVE_ABORT_CATALOG_PATH; the module-level rows are the fallback.
+function builtInCatalog({ factory, pools, bondingCurveModule = 'bonding_curve' }: AbortCatalogPackages): AbortCatalogEntry[] {
+    const fallback = (address: string, module: string, errorCode: string, message: string): AbortCatalogEntry =>
+        ({ module, address, errorCode, status: 422, message });
+    return [
+        {
+            module: 'config',
+            function: 'is_allowed',
+            address: factory,
+            errorCode: 'LAUNCHER_NOT_ALLOWED',
+            status: 403,
+            message: 'The signer is not on the factory allowlist (config::is_allowed). Ask the admin to add it.',
+        },
+        ...FRAMEWORK_CATALOG,
+        // Module-level fallbacks
+        fallback(factory, 'factory', 'FACTORY_ABORT', 'The idol factory rejected the launch.'),
+        fallback(factory, 'config', 'CONFIG_ABORT', 'The factory configuration rejected the launch.'),
+        fallback(factory, 'iao', 'IAO_ABORT', 'The IAO module rejected the request.'),
+        ...(pools
+            ? [
+                  fallback(pools, 'pools', 'POOLS_ABORT', 'The pools module rejected the request.'),
+                  fallback(pools, bondingCurveModule, 'BONDING_CURVE_ABORT', 'The bonding curve rejected the trade.'),
+              ]
+            : []),
+    ];
+}
+
+const FALLBACK = { errorCode: 'MOVE_ABORT', status: 422, message: 'The transaction aborted in Move.' };
+
+/** Pull the abort location and code out of an execution error string; undefined if it isn't a MoveAbort. */
+export function parseMoveAbort(error: string): MoveAbort | undefined {
+    const raw = MOVE_ABORT_RAW.exec(error);
+    if (raw) {
+        return {
+            address: normalizeSuiAddress(raw[1]),
+            module: raw[2],
+            function: raw[3],
+            code: Number(raw[4]),
+            command: raw[5] !== undefined ? Number(raw[5]) : undefined,
+        };
+    }
+    const rendered = MOVE_ABORT_RENDERED.exec(error);
+    if (rendered) {
+        return {
+            address: normalizeSuiAddress(rendered[3]),
+            module: rendered[4],
+            function: rendered[5],
+            code: Number(rendered[2]),
+            command: Number(rendered[1]) - 1, // ordinal, 1-based
+        };
+    }
+    return undefined;
+}
+
+/**
+ * Maps MoveAborts to API errors. Rows from an optional JSON file (an array of
+ * AbortCatalogEntry) take precedence over the built-in ones at equal specificity.
+ */
+export class MoveAbortCatalog {
+    private entries: AbortCatalogEntry[];
+
+    constructor(packages: AbortCatalogPackages, extra: AbortCatalogEntry[] = []) {
+        this.entries = [...extra, ...builtInCatalog(packages)].map((e) =>
+            e.address ? { ...e, address: normalizeSuiAddress(e.address) } : e,
+        );
+    }
+
+    static load(packages: AbortCatalogPackages, filePath?: string): MoveAbortCatalog {
+        if (!filePath || !fs.existsSync(filePath)) return new MoveAbortCatalog(packages);
+        const parsed = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+        if (!Array.isArray(parsed)) throw new Error(`Move abort catalog ${filePath} must be a JSON array`);
+        return new MoveAbortCatalog(packages, parsed as AbortCatalogEntry[]);
+    }
+
+    decode(error: string): DecodedMoveAbort | undefined {
+        const abort = parseMoveAbort(error);
+        if (!abort) return undefined;
+
+        let best: AbortCatalogEntry | undefined;
+        let bestScore = -1;
+        for (const e of this.entries) {
+            if (e.module !== abort.module) continue;
+            if (e.function !== undefined && e.function !== abort.function) continue;
+            if (e.code !== undefined && e.code !== abort.code) continue;
+            if (e.address !== undefined && e.address !== abort.address) continue;
+            // code beats function beats address; the first row wins ties
+            const score = (e.code !== undefined ? 4 : 0) + (e.function !== undefined ? 2 : 0) + (e.address ? 1 : 0);
+            if (score > bestScore) {
+                best = e;
+                bestScore = score;
+            }
+        }
+        const { errorCode, status, message } = best ?? FALLBACK;
+        return { ...abort, errorCode, status, message };
+    }
+
+    /**
+     * Error for a failed execution/devInspect: tagged with `moveAbort` when the status error
+     * decodes, otherwise a plain Error carrying `context` and the raw status text.
+     */
+    toError(rawError: string, context: string): Error & { moveAbort?: DecodedMoveAbort } {
+        const moveAbort = this.decode(rawError);
+        if (!moveAbort) return new Error(`${context}: ${rawError}`);
+        const where = `${moveAbort.module}::${moveAbort.function ?? '?'}`;
+        return Object.assign(
+            new Error(`${moveAbort.message} (${where} abort code ${moveAbort.code}; ${context})`),
+            { moveAbort },
+        );
+    }
+}
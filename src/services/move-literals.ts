@@ -0,0 +1,70 @@
+//--- File: services/move-literals.ts ---
+
+// Helpers for emitting user-supplied values into generated Move source (and the
+// patched coin template bytecode, which applies the same byte rules). Values are never spliced into b"..." literals: they are encoded as hex x"..." byte
+// literals, whose only possible characters are [0-9a-f], so no input can close the
+// literal or inject Move code.
+
+// Unpaired UTF-16 surrogates have no UTF-8 encoding (Buffer would silently emit U+FFFD)
+const LONE_SURROGATE = /[\uD800-\uDBFF](?![\uDC00-\uDFFF])|(?<![\uD800-\uDBFF])[\uDC00-\uDFFF]/;
+const MOVE_IDENTIFIER = /^[A-Za-z][A-Za-z0-9_]*$/;
+
+export function isWellFormedUnicode(value: string): boolean {
+    return !LONE_SURROGATE.test(value);
+}
+
+export function isAscii(value: string): boolean {
+    return /^[\x00-\x7F]*$/.test(value);
+}
+
+/**
+ * UTF-8 bytes of a string destined for a Move vector<u8>.
+ * - `ascii`: the Move side decodes the bytes with std::ascii (coin symbol, icon URL), which
+ *   aborts on bytes >= 0x80, so such input is rejected here instead of at publish time.
+ * - everything else must be well-formed Unicode; Move decodes it with std::string::utf8.
+ */
+export function moveBytes(
+    value: string,
+    field: string,
+    { ascii = false, maxBytes }: { ascii?: boolean; maxBytes?: number } = {},
+): Uint8Array {
+    if (typeof value !== 'string') {
+        throw new Error(`[Move template] ${field} must be a string`);
+    }
+    if (ascii && !isAscii(value)) {
+        throw new Error(`[Move template] ${field} must contain only ASCII characters`);
+    }
+    if (!isWellFormedUnicode(value)) {
+        throw new Error(`[Move template] ${field} contains an unpaired UTF-16 surrogate`);
+    }
+    const bytes = Buffer.from(value, 'utf-8');
+    if (maxBytes !== undefined && bytes.length > maxBytes) {
+        throw new Error(`[Move template] ${field} is ${bytes.length} bytes; at most ${maxBytes} allowed`);
+    }
+    return bytes;
+}
+
+/** Encode a string as a Move `x"..."` vector<u8> literal (same rules as moveBytes). */
+export function moveBytesLiteral(
+    value: string,
+    field: string,
+    opts: { ascii?: boolean; maxBytes?: number } = {},
+): string {
+    return `x"${Buffer.from(moveBytes(value, field, opts)).toString('hex')}"`;
+}
+
+/** Guard for names spliced into module/struct positions. */
+export function assertMoveIdentifier(value: string, field: string): string {
+    if (!MOVE_IDENTIFIER.test(value) || value.length > 128) {
+        throw new Error(`[Move template] ${field} is not a valid Move identifier: ${JSON.stringify(value)}`);
+    }
+    return value;
+}
+
+/** Guard for integer literals spliced into the template. */
+export function moveU8Literal(value: number, field: string): string {
+    if (!Number.isInteger(value) || value < 0 || value > 255) {
+        throw new Error(`[Move template] ${field} must be an integer in 0..255 (u8)`);
+    }
+    return String(value);
+}
@@ -0,0 +1,44 @@
+//--- File: services/move-values.ts ---
+
+import { bcs } from '@mysten/sui/bcs';
+
+// devInspect returnValues entry: [BCS bytes, Move type string]
+export type DevInspectReturnValue = [number[], string];
+
+/**
+ * Decode a u64 or vector<u64> devInspect return value into decimal strings.
+ * Anything else is rejected so a changed Move signature fails loudly instead of
+ * producing a wrong number.
+ */
+export function decodeU64Return([bytes, type]: DevInspectReturnValue): string | string[] {
+    const data = Uint8Array.from(bytes);
+    if (type === 'u64') return bcs.u64().parse(data);
+    if (type === 'vector<u64>') return bcs.vector(bcs.u64()).parse(data);
+    throw new Error(`Unsupported return type "${type}" (expected u64 or vector<u64>)`);
+}
+
+/** Render an integer amount of base units as a decimal string with `decimals` fractional digits. */
+export function formatUnits(value: bigint | string, decimals: number): string {
+    let v = BigInt(value);
+    const negative = v < 0n;
+    if (negative) v = -v;
+    const base = 10n ** BigInt(decimals);
+    const whole = v / base;
+    const frac = (v % base).toString().padStart(decimals, '0').replace(/0+$/, '');
+    return `${negative ? '-' : ''}${whole}${frac ? `.${frac}` : ''}`;
+}
+
+/** num / den as a decimal string with up to `precision` fractional digits (truncated). */
+export function formatRatio(num: bigint, den: bigint, precision = 18): string {
+    if (den === 0n) throw new Error('Division by zero');
+    return formatUnits((num * 10n ** BigInt(precision)) / den, precision);
+}
+
+/** Parse a decimal string (e.g. "12.5") into base units with `decimals` fractional digits. */
+export function parseUnits(value: string, decimals: number): bigint {
+    const m = /^(\d+)(?:\.(\d+))?$/.exec(value.trim());
+    if (!m) throw new Error(`Invalid decimal amount: ${value}`);
+    const frac = m[2] ?? '';
+    if (frac.length > decimals) throw new Error(`Too many fractional digits in ${value} (max ${decimals})`);
+    return BigInt(m[1]) * 10n ** BigInt(decimals) + BigInt(frac.padEnd(decimals, '0') || '0');
+}
@@ -0,0 +1,83 @@
+//--- File: services/readiness.ts ---
+
+import { DeploymentObjectKey, ReadinessCheck, ReadinessReport, SuiNetwork } from '../types';
+import { formatUnits } from './move-values';
+import { SuiBlockchainService } from './sui-blockchain';
+
+// Chain identifier (first bytes of the genesis checkpoint digest) of the networks that never reset
+const CHAIN_IDENTIFIERS: Partial<Record<SuiNetwork, string>> = {
+    mainnet: '35834a8a',
+    testnet: '4c78adac',
+};
+
+export interface ReadinessOptions {
+    minSignerBalanceMist: bigint;
+    expectedTypes?: Partial<Record<DeploymentObjectKey, string>>;
+}
+
+type CheckOutcome = Omit<ReadinessCheck, 'name' | 'durationMs'>;
+
+// Time one check; a throw is a failure carrying its message
+async function run(name: string, check: () => Promise<CheckOutcome>): Promise<ReadinessCheck> {
+    const started = Date.now();
+    try {
+        return { name, ...(await check()), durationMs: Date.now() - started };
+    } catch (error: any) {
+        return { name, status: 'fail', error: error?.message || String(error), durationMs: Date.now() - started };
+    }
+}
+
+/**
+ * Everything a server-signed launch depends on, checked in parallel: the Sui CLI, the fullnode,
+ * its chain identifier, the configured objects, the signer's balance and the factory allowlist.
+ */
+export async function checkReadiness(
+    sui: SuiBlockchainService,
+    network: SuiNetwork,
+    options: ReadinessOptions,
+): Promise<ReadinessReport> {
+    const checks = await Promise.all([
+        run('sui_cli', async () => {
+            try {
+                return { status: 'pass', detail: await sui.ensureSuiAvailable() };
+            } catch (error: any) {
+                // Standard coins publish from the compiled template; only the other templates build with the CLI
+                return { status: 'warn', error: error.message, detail: 'needed for coin templates other than standard' };
+            }
+        }),
+        run('rpc', async () => ({ status: 'pass', detail: `latest checkpoint ${await sui.getLatestCheckpoint()}` })),
+        run('chain_identifier', async () => {
+            const actual = await sui.getChainIdentifier();
+            const expected = CHAIN_IDENTIFIERS[network];
+            if (!expected) return { status: 'pass', detail: `${actual} (${network} resets, so it isn't pinned)` };
+            return actual === expected
+                ? { status: 'pass', detail: actual }
+                : { status: 'fail', error: `fullnode is on chain ${actual}, not ${network} (${expected})` };
+        }),
+        run('objects', async () => {
+            const objects = await sui.checkDeploymentObjects(options.expectedTypes);
+            const failed = objects.filter((o) => !o.ok);
+            return failed.length
+                ? { status: 'fail', error: failed.map((o) => `${o.key} ${o.error}`).join('; '), objects }
+                : { status: 'pass', detail: `${objects.length} configured objects found`, objects };
+        }),
+        run('signer_balance', async () => {
+            const { address, balanceMist } = await sui.getSignerBalance();
+            const detail =
+                `${address} holds ${formatUnits(balanceMist, 9)} SUI ` +
+                `(minimum ${formatUnits(options.minSignerBalanceMist, 9)} SUI)`;
+            return balanceMist >= options.minSignerBalanceMist ? { status: 'pass', detail } : { status: 'fail', error: detail };
+        }),
+        run('signer_allowed', async () =>
+            (await sui.isSignerAllowed())
+                ? { status: 'pass', detail: 'config::is_allowed' }
+                : { status: 'fail', error: 'the signer is not on the factory allowlist (config::is_allowed)' },
+        ),
+    ]);
+    return {
+        network,
+        ready: checks.every((check) => check.status !== 'fail'),
+        checkedAt: new Date().toISOString(),
+        checks,
+    };
+}
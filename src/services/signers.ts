@@ -0,0 +1,138 @@
+//--- File: services/signers.ts ---
+
+import { decodeSuiPrivateKey, Keypair, SignatureScheme } from '@mysten/sui/cryptography';
+import { Ed25519Keypair } from '@mysten/sui/keypairs/ed25519';
+import { Secp256k1Keypair } from '@mysten/sui/keypairs/secp256k1';
+import { Secp256r1Keypair } from '@mysten/sui/keypairs/secp256r1';
+import { fromBase64, normalizeSuiAddress, toBase64 } from '@mysten/sui/utils';
+import { verifyTransactionSignature } from '@mysten/sui/verify';
+import { Env } from '../types';
+
+/**
+ * What SuiBlockchainService needs from whoever holds the server key: an address and the
+ * ability to sign built TransactionData bytes. The key itself never has to live in-process.
+ */
+export interface TransactionSigner {
+    readonly address: string;
+    readonly scheme: string;
+    /** Sign BCS TransactionData bytes; returns the serialized Sui signature (base64). */
+    signTransaction(bytes: Uint8Array): Promise<{ bytes: string; signature: string }>;
+}
+
+// Flag byte prefixed to 33-byte base64 keys (same values as Sui signature scheme flags)
+const SCHEME_BY_FLAG: Record<number, SignatureScheme> = { 0x00: 'ED25519', 0x01: 'Secp256k1', 0x02: 'Secp256r1' };
+
+/** Local in-memory key: Ed25519, Secp256k1 or Secp256r1. */
+export class KeypairSigner implements TransactionSigner {
+    readonly address: string;
+    readonly scheme: string;
+
+    constructor(private keypair: Keypair) {
+        this.address = keypair.getPublicKey().toSuiAddress();
+        this.scheme = keypair.getKeyScheme();
+    }
+
+    /**
+     * Parse `suiprivkey1...` (scheme encoded in the key) or base64 of a 32-byte secret
+     * (Ed25519 unless `defaultScheme` says otherwise) or of flag || 32-byte secret.
+     */
+    static fromSecret(secret: string, defaultScheme: SignatureScheme = 'ED25519'): KeypairSigner {
+        const raw = secret.trim();
+
+        let scheme: SignatureScheme;
+        let secret32: Uint8Array;
+        if (raw.startsWith('suiprivkey')) {
+            const parsed = decodeSuiPrivateKey(raw); // { schema, secretKey }
+            scheme = parsed.schema;
+            secret32 = parsed.secretKey; // 32-byte raw secret
+        } else {
+            const bytes = fromBase64(raw);
+            if (bytes.length === 32) {
+                scheme = defaultScheme;
+                secret32 = bytes;
+            } else if (bytes.length === 33 && SCHEME_BY_FLAG[bytes[0]]) {
+                scheme = SCHEME_BY_FLAG[bytes[0]];
+                secret32 = bytes.slice(1);
+            } else {
+                throw new Error(`Invalid secret key: expected 32 bytes or flag + 32 bytes, got ${bytes.length}`);
+            }
+        }
+
+        switch (scheme) {
+            case 'ED25519':
+                return new KeypairSigner(Ed25519Keypair.fromSecretKey(secret32));
+            case 'Secp256k1':
+                return new KeypairSigner(Secp256k1Keypair.fromSecretKey(secret32));
+            case 'Secp256r1':
+                return new KeypairSigner(Secp256r1Keypair.fromSecretKey(secret32));
+            default:
+                throw new Error(`Unsupported key scheme "${scheme}".`);
+        }
+    }
+
+    signTransaction(bytes: Uint8Array) {
+        return this.keypair.signTransaction(bytes);
+    }
+}
+
+/**
+ * Key held by a remote service (KMS bridge, HSM, custody API).
+ * Protocol: POST <url> with JSON { address, txBytes: <base64 TransactionData> } and optional
+ * `Authorization: Bearer <token>`; the response is JSON { signature: <base64 serialized Sui signature> }.
+ * Every returned signature is verified against the configured address before it is used.
+ */
+export class RemoteSigner implements TransactionSigner {
+    readonly address: string;
+    readonly scheme = 'remote';
+
+    constructor(
+        private url: string,
+        address: string,
+        private authToken?: string,
+        private timeoutMs = 15_000,
+    ) {
+        this.address = normalizeSuiAddress(address);
+    }
+
+    async signTransaction(bytes: Uint8Array): Promise<{ bytes: string; signature: string }> {
+        const txBytes = toBase64(bytes);
+        const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+        if (this.authToken) headers.Authorization = `Bearer ${this.authToken}`;
+
+        const res = await fetch(this.url, {
+            method: 'POST',
+            headers,
+            body: JSON.stringify({ address: this.address, txBytes }),
+            signal: AbortSignal.timeout(this.timeoutMs),
+        });
+        if (!res.ok) {
+            throw new Error(`Remote signer responded with HTTP ${res.status}: ${await res.text().catch(() => '')}`);
+        }
+        const { signature } = (await res.json()) as { signature?: string };
+        if (typeof signature !== 'string' || !signature) {
+            throw new Error('Remote signer response is missing a signature');
+        }
+
+        try {
+            await verifyTransactionSignature(bytes, signature, { address: this.address });
+        } catch (e: any) {
+            throw new Error(`Remote signer returned a signature that does not verify for ${this.address}: ${e?.message || e}`);
+        }
+        return { bytes: txBytes, signature };
+    }
+}
+
+/** Remote signer when SUI_REMOTE_SIGNER_URL is set, otherwise the local key in SUI_SIGNER_SECRET_KEY. */
+export function createSigner(env: Env): TransactionSigner {
+    if (env.SUI_REMOTE_SIGNER_URL) {
+        if (!env.SUI_REMOTE_SIGNER_ADDRESS) {
+            throw new Error('SUI_REMOTE_SIGNER_ADDRESS is required when SUI_REMOTE_SIGNER_URL is set.');
+        }
+        return new RemoteSigner(env.SUI_REMOTE_SIGNER_URL, env.SUI_REMOTE_SIGNER_ADDRESS, env.SUI_REMOTE_SIGNER_TOKEN);
+    }
+    if (!env.SUI_SIGNER_SECRET_KEY) {
+        throw new Error('SUI_SIGNER_SECRET_KEY is not defined in environment variables.');
+    }
+    const scheme = env.SUI_SIGNER_SCHEME as SignatureScheme | undefined;
+    return KeypairSigner.fromSecret(env.SUI_SIGNER_SECRET_KEY, scheme || 'ED25519');
+}
@@ -1,12 +1,24 @@
 //--- File: services/sui-blockchain.ts ---
 
 import { getFullnodeUrl, SuiClient } from '@mysten/sui/client';
-import { Ed25519Keypair } from '@mysten/sui/keypairs/ed25519';
-import { Transaction } from '@mysten/sui/transactions';
-import { fromB64 } from '@mysten/sui/utils';
-import { decodeSuiPrivateKey } from '@mysten/sui/cryptography';
-import { Env, IdolCreateRequest } from '../types';
-import { exec } from 'child_process';
+import { coinWithBalance, Transaction, TransactionDataBuilder } from '@mysten/sui/transactions';
+import { normalizeStructTag, toBase64 } from '@mysten/sui/utils';
+import { bcs } from '@mysten/sui/bcs';
+import { CapCustodyGroup, CoinTemplateId, CustodyCap, DEPLOYMENT_OBJECT_KEYS, DeploymentObjectCheck, DeploymentObjectKey, Env, GasEstimate, IdolCreateRequest, IdolTokenParams, LaunchPreview, LaunchPreviewStep, MarketSnapshotEntry, PublishedIdolToken, SubmittedPublish, TradeQuote, TradeSide, UnsignedWalletTx, RegisteredIdolAsset } from '../types';
+import { assertMoveIdentifier } from './move-literals';
+import { CoinBytecodeTemplate } from './coin-bytecode-template';
+import { custodyCap, groupCaps, TREASURY_CAP_TYPE, UPGRADE_CAP_TYPE } from './cap-custody';
+import { coinTemplate, coinTemplateFor, findCapabilities, renderTokenModule } from './coin-templates';
+import { DEFAULT_EXPECTED_TYPES, matchesExpectedType } from './deployment-profiles';
+import { EventIndexer } from './event-indexer';
+import { EventIndexStore } from './event-index-store';
+import { GasCoinPool } from './gas-coin-pool';
+import { MoveAbortCatalog } from './move-aborts';
+import { GasStation } from './gas-station';
+import { createSigner, TransactionSigner } from './signers';
+import { TtlCache, CacheStats } from './ttl-cache';
+import { decodeU64Return, DevInspectReturnValue, formatRatio, formatUnits, parseUnits } from './move-values';
+import { execFile } from 'child_process';
 import fs from 'fs';
 import path from 'path';
 import os from 'os';
@@ -14,65 +26,84 @@ import os from 'os';
 // Resolve Sui CLI binary once (env override supported)
 const SUI_BIN = process.env.SUI_BIN || 'sui';
 
-// A helper to run shell commands with Promises
-function execAsync(
-    command: string,
+// GRADUATION_RAISED_FIELD form that reads the i-th u64 of bonding_curve::get_current_supply instead of an IAO field
+const CURVE_RAISED_FIELD = /^get_current_supply\[(\d+)\]$/;
+// Objects the migrate call can take, by GRADUATION_MIGRATE_ARGS name
+const MIGRATE_ARG_NAMES = [
+    'pool', 'iaoConfig', 'iaoRegistry', 'poolsConfig', 'poolsRegistry', 'cetusConfig', 'cetusPools', 'clock',
+] as const;
+type MigrateArgName = typeof MIGRATE_ARG_NAMES[number];
+
+// Upper estimate of publish + launch_idol gas, used for the funds check before anything is dry-run
+const LAUNCH_GAS_ESTIMATE_MIST = 200_000_000n;
+
+// A helper to run a binary with Promises (argv array, no shell, so paths are never re-parsed)
+function execFileAsync(
+    file: string,
+    args: string[],
     options: { encoding?: BufferEncoding; maxBuffer?: number } = {
         encoding: 'utf-8',
         maxBuffer: 50 * 1024 * 1024, // 50 MB
     },
 ): Promise<string> {
     return new Promise((resolve, reject) => {
-        exec(command, options, (error, stdout, stderr) => {
+        execFile(file, args, options, (error, stdout, stderr) => {
             if (error) {
                 reject(new Error(`Command failed: ${error.message}\nStderr: ${stderr}`));
                 return;
             }
-            resolve(stdout);
+            resolve(String(stdout));
         });
     });
 }
 
 export class SuiBlockchainService {
     private client: SuiClient;
-    private keypair: Ed25519Keypair;
+    // Server key: local keypair or remote signer; only its address and signTransaction are used
+    private signer: TransactionSigner;
     private iaoConfigId: string;
     private iaoRegistryId: string;
     private poolsConfigId: string;
     private poolsRegistryId: string;
     private clockId: string;
     private factoryPackageId: string;
+    private cetusConfigId: string;
+    private cetusPoolsId: string;
+    // Every configured object ID by its env name, for the startup check
+    private deploymentObjects: Partial<Record<DeploymentObjectKey, string>>;
+    // Object config::is_allowed reads the factory allowlist from
+    private allowlistConfigId: string;
     // Optional bonding-curve query wiring
     private poolsPackageId?: string;
     private bcModule?: string;
     private bcGlobalConfigId?: string;
     private quoteCoinType?: string;
+    private bcBuyFn: string;
+    private bcSellFn: string;
+    // Pre-compiled coin template; when absent every publish compiles via the Sui CLI
+    private coinTemplate: CoinBytecodeTemplate;
+    // Set when GAS_SPONSOR_ENABLED: pays gas for creator-sent (sponsored) transactions
+    private gasStation?: GasStation;
+    // Pre-split gas coins for server-signed transactions (unset when GAS_POOL_SIZE=0)
+    private gasPool?: GasCoinPool;
+    // launch_idol initial liquidity bounds/defaults (MIST) and the margin added to dry-run gas
+    private liquidity: { min: bigint; max: bigint; default: bigint; goalBps?: bigint };
+    private gasBudgetMarginBps: bigint;
+    // Maps MoveAbort status errors to typed API errors (`moveAbort` on thrown errors)
+    private aborts: MoveAbortCatalog;
+    // Throwaway TreasuryCap standing in for the not-yet-published coin when previewing launch_idol
+    private previewTreasuryCapId?: string;
+    // PACKAGE_UPGRADE_POLICY=immutable: publish consumes the UpgradeCap via package::make_immutable
+    private makeImmutable: boolean;
+    // How the graduation monitor reads IAO progress and which call migrates liquidity to Cetus
+    private graduation: { raisedField?: string; migrateTarget?: string; migrateArgs: MigrateArgName[] };
+    private decimalsCache = new Map<string, number>();
+    // Short-TTL cache for bonding-curve getters, keyed by (function, quoteCoinType, coinType, configId)
+    private readCache: TtlCache<DevInspectReturnValue[]>;
 
-    constructor(env: Env) {
-        this.client = new SuiClient({ url: getFullnodeUrl(env.SUI_NETWORK) });
-
-        if (!env.SUI_SIGNER_SECRET_KEY) {
-            throw new Error('SUI_SIGNER_SECRET_KEY is not defined in environment variables.');
-        }
-
-        // ---- Robust key parsing (supports suiprivkey... and base64 32/33 bytes) ----
-        const raw = env.SUI_SIGNER_SECRET_KEY.trim();
-
-        let secret32: Uint8Array;
-        if (raw.startsWith('suiprivkey')) {
-            const parsed = decodeSuiPrivateKey(raw); // { schema, secretKey }
-            if (parsed.schema !== 'ED25519') {
-                throw new Error(`Unsupported key scheme "${parsed.schema}". Only ED25519 is supported.`);
-            }
-            secret32 = parsed.secretKey; // 32-byte raw secret
-        } else {
-            const bytes = fromB64(raw);
-            if (bytes.length === 32) secret32 = bytes;
-            else if (bytes.length === 33) secret32 = bytes.slice(1);
-            else throw new Error(`Invalid Ed25519 secret key length: expected 32 or 33, got ${bytes.length}`);
-        }
-
-        this.keypair = Ed25519Keypair.fromSecretKey(secret32);
+    constructor(env: Env, signer: TransactionSigner = createSigner(env)) {
+        this.client = new SuiClient({ url: env.SUI_RPC_URL || getFullnodeUrl(env.SUI_NETWORK) });
+        this.signer = signer;
 
         if (
             !env.IAO_CONFIG_ID ||
@@ -80,9 +111,11 @@ export class SuiBlockchainService {
             !env.POOLS_CONFIG_ID ||
             !env.POOLS_REGISTRY_ID ||
             !env.CLOCK_ID ||
-            !env.FACTORY_PACKAGE_ID
+            !env.FACTORY_PACKAGE_ID ||
+            !env.CETUS_GLOBAL_CONFIG_ID ||
+            !env.CETUS_POOLS_ID
         ) {
-            throw new Error('Missing one or more IAO/Pools/Factory object IDs in environment variables.');
+            throw new Error('Missing one or more IAO/Pools/Factory/Cetus object IDs in environment variables.');
         }
         this.iaoConfigId = env.IAO_CONFIG_ID;
         this.iaoRegistryId = env.IAO_REGISTRY_ID;
@@ -90,16 +123,108 @@ export class SuiBlockchainService {
         this.poolsRegistryId = env.POOLS_REGISTRY_ID;
         this.clockId = env.CLOCK_ID;
         this.factoryPackageId = env.FACTORY_PACKAGE_ID;
+        this.cetusConfigId = env.CETUS_GLOBAL_CONFIG_ID;
+        this.cetusPoolsId = env.CETUS_POOLS_ID;
+        this.allowlistConfigId = env.FACTORY_ALLOWLIST_CONFIG_ID || env.IAO_CONFIG_ID;
+        this.deploymentObjects = Object.fromEntries(
+            DEPLOYMENT_OBJECT_KEYS.filter((key) => env[key]).map((key) => [key, env[key]]),
+        );
         // Optional bonding-curve config
         this.poolsPackageId = env.POOLS_PACKAGE_ID;
         this.bcModule = env.BONDING_CURVE_MODULE || 'bonding_curve';
         this.bcGlobalConfigId = env.BONDING_CURVE_GLOBAL_CONFIG_ID;
         this.quoteCoinType = env.COINX_TYPE || '0x2::sui::SUI';
+        this.bcBuyFn = env.BONDING_CURVE_BUY_FN || 'buy';
+        this.bcSellFn = env.BONDING_CURVE_SELL_FN || 'sell';
+        this.readCache = new TtlCache(Number(env.READ_CACHE_TTL_MS ?? 2_000));
+
+        if (env.GAS_SPONSOR_ENABLED === 'true') {
+            this.gasStation = new GasStation(
+                this.client,
+                this.signer.address,
+                {
+                    maxBudgetMist: BigInt(env.GAS_SPONSOR_MAX_BUDGET_MIST ?? '500000000'),
+                    dailyLimitMist: BigInt(env.GAS_SPONSOR_DAILY_LIMIT_MIST ?? '50000000000'),
+                    creatorDailyLimitMist: BigInt(env.GAS_SPONSOR_CREATOR_DAILY_LIMIT_MIST ?? '2000000000'),
+                    reservationTtlMs: Number(env.GAS_SPONSOR_RESERVATION_TTL_MS ?? 10 * 60_000),
+                },
+                env.GAS_SPEND_LEDGER_PATH || 'data/gas-spend.json',
+                (coinId) => this.gasPool?.holds(coinId) ?? false,
+            );
+        }
+
+        this.liquidity = {
+            min: BigInt(env.INITIAL_LIQUIDITY_MIN_MIST ?? '1000000000'),
+            max: BigInt(env.INITIAL_LIQUIDITY_MAX_MIST ?? '100000000000'),
+            default: BigInt(env.INITIAL_LIQUIDITY_DEFAULT_MIST ?? '1000000000'),
+            goalBps: env.INITIAL_LIQUIDITY_GOAL_BPS ? BigInt(env.INITIAL_LIQUIDITY_GOAL_BPS) : undefined,
+        };
+        if (this.liquidity.min > this.liquidity.max) {
+            throw new Error('INITIAL_LIQUIDITY_MIN_MIST must not exceed INITIAL_LIQUIDITY_MAX_MIST.');
+        }
+        this.gasBudgetMarginBps = BigInt(env.GAS_BUDGET_MARGIN_BPS ?? '2000');
+        this.previewTreasuryCapId = env.PREVIEW_TREASURY_CAP_ID;
+        this.aborts = MoveAbortCatalog.load(
+            { factory: this.factoryPackageId, pools: this.poolsPackageId, bondingCurveModule: this.bcModule },
+            env.MOVE_ABORT_CATALOG_PATH,
+        );
+
+        const gasPoolSize = Number(env.GAS_POOL_SIZE ?? 4);
+        if (gasPoolSize > 0) {
+            this.gasPool = new GasCoinPool(
+                this.client,
+                this.signer,
+                {
+                    size: gasPoolSize,
+                    coinBalanceMist: BigInt(env.GAS_POOL_COIN_MIST ?? '2000000000'),
+                    minCoinBalanceMist: BigInt(env.GAS_POOL_MIN_COIN_MIST ?? '200000000'),
+                    leaseTimeoutMs: Number(env.GAS_POOL_LEASE_TIMEOUT_MS ?? 120_000),
+                },
+                (coinId) => this.gasStation?.isLocked(coinId) ?? false,
+            );
+        }
+
+        const upgradePolicy = env.PACKAGE_UPGRADE_POLICY || 'upgradeable';
+        if (upgradePolicy !== 'upgradeable' && upgradePolicy !== 'immutable') {
+            throw new Error('PACKAGE_UPGRADE_POLICY must be "upgradeable" or "immutable".');
+        }
+        this.makeImmutable = upgradePolicy === 'immutable';
+
+        const migrateArgs = (env.GRADUATION_MIGRATE_ARGS || 'pool,iaoConfig,poolsConfig,cetusConfig,cetusPools,clock')
+            .split(',')
+            .map((a) => a.trim());
+        const unknownArg = migrateArgs.find((a) => !MIGRATE_ARG_NAMES.includes(a as MigrateArgName));
+        if (unknownArg) {
+            throw new Error(`GRADUATION_MIGRATE_ARGS: unknown argument "${unknownArg}" (use ${MIGRATE_ARG_NAMES.join(', ')})`);
+        }
+        // No defaults: reading the wrong field or calling the wrong function would migrate at the wrong time
+        this.graduation = {
+            raisedField: env.GRADUATION_RAISED_FIELD || undefined,
+            migrateTarget: env.GRADUATION_MIGRATE_TARGET || undefined,
+            migrateArgs: migrateArgs as MigrateArgName[],
+        };
+        if (env.GRADUATION_MONITOR_ENABLED === 'true') {
+            const unset = (['GRADUATION_RAISED_FIELD', 'GRADUATION_MIGRATE_TARGET'] as const).filter((key) => !env[key]);
+            if (unset.length) throw new Error(`GRADUATION_MONITOR_ENABLED=true needs ${unset.join(' and ')}`);
+        }
+
+        // Required: without it every standard launch would shell out to `sui move build`
+        const templatePath = env.COIN_TEMPLATE_BYTECODE_PATH || 'move/coin_template/bytecode.json';
+        const compiled = CoinBytecodeTemplate.load(templatePath);
+        if (!compiled) {
+            throw new Error(
+                `Coin template bytecode ${templatePath} not found. Build it once with \`npm run build:coin-template\` ` +
+                '(needs the Sui CLI) and deploy it with the service.',
+            );
+        }
+        this.coinTemplate = compiled;
+        console.log('[SUI Service] Coin template bytecode loaded; publishing standard coins without the Sui CLI.');
     }
 
-    private async ensureSuiAvailable() {
+    /** Version line of the Sui CLI; throws when SUI_BIN can't be run. */
+    async ensureSuiAvailable(): Promise<string> {
         try {
-            await execAsync(`${SUI_BIN} --version`);
+            return (await execFileAsync(SUI_BIN, ['--version'])).trim();
         } catch {
             throw new Error(
                 `Sui CLI not found or not executable. Set SUI_BIN or fix PATH so "${SUI_BIN}" is available.`,
@@ -139,34 +264,37 @@ export class SuiBlockchainService {
         }
     }
 
-    async publishIdolTokenPackage(params: {
-        ticker: string;
-        name: string;
-        description: string;
-        decimals: number;
-        imageUrl: string;
-    }): Promise<{
-        packageId: string;
-        treasuryCapId: string;
-        coinMetadataId: string;
-        moduleName: string;
-        structName: string; // the OTW type name (UPPERCASE module name)
-        coinType: string;
-    }> {
-        await this.ensureSuiAvailable();
-
-        const sanitizedTicker = params.ticker.replace(/[^a-zA-Z0-9_]/g, '').toLowerCase();
-        const uniqueId = `${sanitizedTicker}_${Date.now()}`;
-        const moduleName = `idol_${uniqueId}`;
-        const MODULE_NAME_UPPER = moduleName.toUpperCase();
+    // Prefer patching the pre-compiled coin template; fall back to a CLI build when it can't be
+    // patched (e.g. the template was rebuilt with different placeholders).
+    // Only the standard coin is pre-compiled; other coin templates always build with the CLI.
+    private async buildTokenPackage(
+        moduleName: string,
+        MODULE_NAME_UPPER: string,
+        params: IdolTokenParams,
+    ): Promise<{ modules: string[]; dependencies: string[] }> {
+        if (coinTemplate(params.template).precompiled) {
+            try {
+                const built = this.coinTemplate.build(moduleName, MODULE_NAME_UPPER, params);
+                console.log(`[SUI Service] Patched pre-compiled coin template for ${moduleName}.`);
+                return built;
+            } catch (error: any) {
+                console.error('[SUI Service] Coin template patch failed, falling back to Sui CLI:', error.message || error);
+            }
+        }
+        return this.compileTokenPackage(moduleName, MODULE_NAME_UPPER, params);
+    }
 
-        // The OTW type name equals the uppercase module name
-        const structName = MODULE_NAME_UPPER;
+    private async compileTokenPackage(
+        moduleName: string,
+        MODULE_NAME_UPPER: string,
+        params: IdolTokenParams,
+    ): Promise<{ modules: string[]; dependencies: string[] }> {
+        await this.ensureSuiAvailable();
 
-        const tokenMoveSource = this.getTokenMoveTemplate(moduleName, MODULE_NAME_UPPER, params);
+        const tokenMoveSource = renderTokenModule(moduleName, MODULE_NAME_UPPER, params);
         const moveTomlSource = this.getMoveTomlTemplate(moduleName); // no explicit Sui dep
 
-        const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), `sui-build-${uniqueId}-`));
+        const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), `sui-build-${moduleName}-`));
         const sourcesDir = path.join(tmpDir, 'sources');
         fs.mkdirSync(sourcesDir, { recursive: true });
         fs.writeFileSync(path.join(sourcesDir, `${moduleName}.move`), tokenMoveSource);
@@ -177,8 +305,9 @@ export class SuiBlockchainService {
 
         try {
             console.log(`[SUI Service] Compiling Move package in ${tmpDir}...`);
-            const buildOutput = await execAsync(
-                `${SUI_BIN} move build --dump-bytecode-as-base64 --skip-fetch-latest-git-deps --path ${tmpDir}`,
+            const buildOutput = await execFileAsync(
+                SUI_BIN,
+                ['move', 'build', '--dump-bytecode-as-base64', '--skip-fetch-latest-git-deps', '--path', tmpDir],
                 { encoding: 'utf-8', maxBuffer: 50 * 1024 * 1024 },
             );
             const parsed = JSON.parse(buildOutput);
@@ -195,26 +324,49 @@ export class SuiBlockchainService {
             }
         }
 
+        return { modules, dependencies };
+    }
+
+    // Module/OTW names for a new coin; the timestamp keeps every published module unique
+    private newTokenNames(ticker: string): { moduleName: string; structName: string } {
+        const sanitizedTicker = ticker.replace(/[^a-zA-Z0-9_]/g, '').toLowerCase();
+        const uniqueId = `${sanitizedTicker}_${Date.now()}`;
+        const moduleName = `idol_${uniqueId}`;
+        // The OTW type name equals the uppercase module name
+        return { moduleName, structName: moduleName.toUpperCase() };
+    }
+
+    // Publish PTB; the UpgradeCap goes to `owner` (the server, or the creator in wallet mode),
+    // or is destroyed right away when PACKAGE_UPGRADE_POLICY=immutable
+    private async buildPublishTransaction(params: IdolTokenParams, owner: string) {
+        const { moduleName, structName } = this.newTokenNames(params.ticker);
+        const { modules, dependencies } = await this.buildTokenPackage(moduleName, structName, params);
+
         const tx = new Transaction();
         const [upgradeCap] = tx.publish({ modules, dependencies });
-        const recipient = this.keypair.getPublicKey().toSuiAddress();
-        tx.transferObjects([upgradeCap], tx.pure.address(recipient));
-
-        // Ask the node to execute AND be ready for follow-up queries on the same node.
-        const result = await this.client.signAndExecuteTransaction({
-            signer: this.keypair,
-            transaction: tx,
-            requestType: 'WaitForLocalExecution', // triggers SDK's internal wait on many setups
-            options: { showObjectChanges: true, showEffects: true },
-        });
+        if (this.makeImmutable) {
+            tx.moveCall({ target: '0x2::package::make_immutable', arguments: [upgradeCap] });
+        } else {
+            tx.transferObjects([upgradeCap], tx.pure.address(owner));
+        }
+        return { tx, moduleName, structName, template: params.template, modules, dependencies };
+    }
 
+    // Wait for indexing, then pull packageId/TreasuryCap/CoinMetadata and the template's capabilities out of a publish result
+    private async finalizePublish(
+        result: any,
+        moduleName: string,
+        structName: string,
+        templateId: CoinTemplateId = 'standard',
+    ): Promise<PublishedIdolToken> {
+        const template = coinTemplate(templateId);
         // Extra safety: explicitly wait until the transaction is indexed so getObject & resolvers see it.
         await this.client.waitForTransaction({
             digest: result.digest,
             options: { showEffects: true, showObjectChanges: true },
         });
 
-        const packageId = result.objectChanges?.find((o) => o.type === 'published')?.packageId;
+        const packageId = result.objectChanges?.find((o: any) => o.type === 'published')?.packageId;
 
         // Be tolerant: TreasuryCap/Metadata may be "created" or "transferred"
         const tcapChange = result.objectChanges?.find(
@@ -231,43 +383,162 @@ export class SuiBlockchainService {
                 o.objectType.includes('::coin::CoinMetadata'),
         ) as any;
 
-        if (!packageId || !tcapChange?.objectId || !metaChange?.objectId) {
+        // Absent when make_immutable consumed it in the publish transaction
+        const upgradeCapChange = result.objectChanges?.find(
+            (o: any) =>
+                o.type === 'created' &&
+                typeof o.objectType === 'string' &&
+                o.objectType.endsWith('::package::UpgradeCap'),
+        ) as any;
+
+        // Only in packages built since IdolProfile was added to the token module
+        const profileChange = result.objectChanges?.find(
+            (o: any) => o.type === 'created' && o.objectType === `${packageId}::${moduleName}::IdolProfile`,
+        ) as any;
+
+        if (!packageId || (!tcapChange?.objectId && template.treasuryCap !== 'wrapped') || !metaChange?.objectId) {
             console.error('[SUI Service] Failed to extract object IDs from publish transaction:', result);
             throw new Error('Failed to extract object IDs from publish transaction.');
         }
 
-        const coinType = `${packageId}::${moduleName}::${MODULE_NAME_UPPER}`;
+        const coinType = `${packageId}::${moduleName}::${structName}`;
+        const capabilities = findCapabilities(template, { packageId, moduleName, coinType }, result.objectChanges);
 
-        console.log(`[SUI Service] coinType = ${coinType}`);
-        console.log(`[SUI Service] treasuryCapId = ${tcapChange.objectId}`);
+        console.log(`[SUI Service] coinType = ${coinType} (template ${template.id})`);
+        console.log(`[SUI Service] treasuryCapId = ${tcapChange?.objectId}`);
         console.log(`[SUI Service] coinMetadataId = ${metaChange.objectId}`);
+        console.log(`[SUI Service] profileId = ${profileChange?.objectId}`);
+        console.log(`[SUI Service] upgradeCapId = ${upgradeCapChange?.objectId ?? '(package is immutable)'}`);
+        for (const cap of capabilities) console.log(`[SUI Service] ${cap.name} = ${cap.objectId}`);
 
-        // Wait until both objects are visible on the node (avoids 'notExists' in step 2)
-        await this.waitForObject(tcapChange.objectId, 'TreasuryCap');
+        // Wait until the objects are visible on the node (avoids 'notExists' in step 2)
+        if (tcapChange) await this.waitForObject(tcapChange.objectId, 'TreasuryCap');
         await this.waitForObject(metaChange.objectId, 'CoinMetadata');
+        for (const cap of capabilities) await this.waitForObject(cap.objectId, cap.name);
 
         return {
             packageId,
-            treasuryCapId: tcapChange.objectId,
+            treasuryCapId: tcapChange?.objectId,
             coinMetadataId: metaChange.objectId,
             moduleName,
-            structName,
+            structName, // the OTW type name (UPPERCASE module name)
             coinType,
+            profileId: profileChange?.objectId,
+            upgradeCapId: upgradeCapChange?.objectId,
+            immutable: !upgradeCapChange,
+            template: template.id,
+            capabilities,
+            digest: result.digest,
         };
     }
 
-    async registerAsset(
-        idolToken: {
-            packageId: string;
-            treasuryCapId: string;
-            moduleName: string;
-            structName: string;
-            coinType: string;
-        },
+    /**
+     * `onSubmitted` gets the digest once the transaction is signed, before it executes, so the
+     * caller can persist it and recover the result (recoverPublish) if anything after that fails.
+     */
+    async publishIdolTokenPackage(
+        params: IdolTokenParams,
+        onSubmitted?: (submitted: SubmittedPublish) => void,
+    ): Promise<PublishedIdolToken> {
+        const recipient = this.signer.address;
+        const { tx, moduleName, structName, template } = await this.buildPublishTransaction(params, recipient);
+
+        // Ask the node to execute AND be ready for follow-up queries on the same node.
+        const result = await this.signAndExecute(tx, undefined, (digest) =>
+            onSubmitted?.({ digest, moduleName, structName, template, submittedAt: new Date().toISOString() }),
+        );
+
+        return this.finalizePublish(result, moduleName, structName, template);
+    }
+
+    /**
+     * Publish result of a transaction submitted earlier (crash or timeout before it was stored).
+     * Undefined when the node doesn't know the digest or it failed on chain: publishing again is safe.
+     */
+    async recoverPublish(submitted: SubmittedPublish): Promise<PublishedIdolToken | undefined> {
+        const options = { showEffects: true, showObjectChanges: true };
+        await this.client.waitForTransaction({ digest: submitted.digest, options, timeout: 30_000 }).catch(() => undefined);
+        let result;
+        try {
+            result = await this.client.getTransactionBlock({ digest: submitted.digest, options });
+        } catch (error: any) {
+            // Anything but "not found" (e.g. the node is down) must not lead to a second publish
+            if (/could not find|not found/i.test(error?.message ?? '')) return undefined;
+            throw error;
+        }
+        if (result.effects?.status.status === 'failure') return undefined;
+        return this.finalizePublish(result, submitted.moduleName, submitted.structName, submitted.template);
+    }
+
+    /** Bounds for createParams.initialLiquiditySui, in MIST. */
+    initialLiquidityBounds(): { min: bigint; max: bigint } {
+        return { min: this.liquidity.min, max: this.liquidity.max };
+    }
+
+    // Requested liquidity, else a share of targetGoalSui (INITIAL_LIQUIDITY_GOAL_BPS), else the default;
+    // derived values are clamped to the configured bounds, explicit ones must already be inside them
+    initialLiquidityMist(createParams: IdolCreateRequest): bigint {
+        const { min, max } = this.liquidity;
+        if (createParams.initialLiquiditySui !== undefined) {
+            const requested = parseUnits(createParams.initialLiquiditySui, 9);
+            if (requested < min || requested > max) {
+                throw new Error(`initialLiquiditySui must be between ${formatUnits(min, 9)} and ${formatUnits(max, 9)} SUI`);
+            }
+            return requested;
+        }
+        const derived = this.liquidity.goalBps !== undefined
+            ? (parseUnits(createParams.targetGoalSui, 9) * this.liquidity.goalBps) / 10_000n
+            : this.liquidity.default;
+        return derived < min ? min : derived > max ? max : derived;
+    }
+
+    /**
+     * 402-style funds check: `payer` must hold `requiredMist` SUI across all their coins.
+     * The thrown error carries `insufficientFunds`, the address and both amounts.
+     */
+    private async assertBalance(payer: string, requiredMist: bigint, what: string) {
+        const { totalBalance } = await this.client.getBalance({ owner: payer, coinType: '0x2::sui::SUI' });
+        if (BigInt(totalBalance) < requiredMist) {
+            throw Object.assign(
+                new Error(
+                    `Insufficient SUI for ${what}: ${payer} holds ${formatUnits(totalBalance, 9)} SUI, ` +
+                    `needs ${formatUnits(requiredMist, 9)} SUI`,
+                ),
+                { insufficientFunds: true, address: payer, requiredMist: requiredMist.toString(), balanceMist: totalBalance },
+            );
+        }
+    }
+
+    /**
+     * Up-front check before a launch is accepted: initial liquidity plus estimated gas for both
+     * steps (gas is skipped when sponsored). `payer` defaults to the server signer.
+     * Coin templates without an IAO only need gas.
+     */
+    async checkLaunchFunds(
+        createParams: IdolCreateRequest,
+        payer: string = this.signer.address,
+        { sponsored = false }: { sponsored?: boolean } = {},
+    ) {
+        const liquidity = coinTemplateFor(createParams).launchesIao ? this.initialLiquidityMist(createParams) : 0n;
+        const required = liquidity + (sponsored ? 0n : LAUNCH_GAS_ESTIMATE_MIST);
+        await this.assertBalance(payer, required, 'initial liquidity and gas');
+    }
+
+    // launch_idol PTB; initial liquidity is split from the sender's gas coin (or their other SUI coins).
+    // No gas budget is set here: preflightRegister derives it from the devInspect gas usage.
+    private async buildRegisterTransaction(
+        idolToken: { treasuryCapId?: string; coinType: string },
         createParams: IdolCreateRequest,
-    ): Promise<{ digest: string; poolId: string; lpCapId?: string; creatorTokensId?: string }> {
+        { liquidityFromGas = true }: { liquidityFromGas?: boolean } = {},
+    ): Promise<{ tx: Transaction; liquidityMist: bigint }> {
+        const treasuryCapId = idolToken.treasuryCapId;
+        if (!treasuryCapId) {
+            throw new Error(`${idolToken.coinType} has no TreasuryCap to hand to launch_idol (its coin template opens no IAO)`);
+        }
+        const liquidityMist = this.initialLiquidityMist(createParams);
+
         // Preflight: objects must exist on this network
-        await this.assertObjectExists(idolToken.treasuryCapId, 'TreasuryCap');
+        await this.assertObjectExists(treasuryCapId, 'TreasuryCap');
         await this.assertObjectExists(this.iaoConfigId, 'IAO_CONFIG_ID');
         await this.assertObjectExists(this.iaoRegistryId, 'IAO_REGISTRY_ID');
         await this.assertObjectExists(this.poolsConfigId, 'POOLS_CONFIG_ID');
@@ -279,7 +550,9 @@ export class SuiBlockchainService {
         const tx = new Transaction();
 
         // Build the PTB
-        const [initial_liquidity] = tx.splitCoins(tx.gas, [tx.pure.u64(1_000_000_000)]);
+        const initial_liquidity = liquidityFromGas
+            ? tx.splitCoins(tx.gas, [tx.pure.u64(liquidityMist)])[0]
+            : tx.add(coinWithBalance({ balance: liquidityMist, useGasCoin: false }));
         const fullCoinType = idolToken.coinType;
 
         tx.moveCall({
@@ -290,7 +563,7 @@ export class SuiBlockchainService {
                 tx.pure.string(createParams.imageUrl || 'https://idol.fun/default-icon.png'),
                 tx.pure.u64(createParams.totalSupply),
                 tx.pure.u16(createParams.feeRateBps),
-                tx.object(idolToken.treasuryCapId),
+                tx.object(treasuryCapId),
                 tx.object(this.iaoConfigId),
                 tx.object(this.iaoRegistryId),
                 tx.object(this.poolsConfigId),
@@ -301,54 +574,52 @@ export class SuiBlockchainService {
                 tx.object(this.clockId),
             ],
         });
+        return { tx, liquidityMist };
+    }
 
-        // Explicit gas budget so the SDK doesn't stop early on auto-budget dry run
-        tx.setGasBudget(100_000_000n); // adjust as needed; big enough to avoid auto budget dry-run path
-
-        // ----- DEV INSPECT (preflight) to surface real aborts -----
-        const sender = this.keypair.getPublicKey().toSuiAddress();
+    // ----- DEV INSPECT (preflight) to surface real aborts -----
+    // Sets the gas budget to the inspected computation + storage cost plus GAS_BUDGET_MARGIN_BPS.
+    private async preflightRegister(tx: Transaction, sender: string): Promise<bigint> {
         const di = await this.client.devInspectTransactionBlock({
             sender,
             transactionBlock: tx,
         });
 
-        // If the dry run indicates failure, bubble up a helpful error
+        // If the dry run indicates failure, bubble up a decoded abort (config::is_allowed etc.)
         const status = (di as any)?.effects?.status?.status ?? (di as any)?.effects?.status;
         const error = (di as any)?.effects?.status?.error ?? (di as any)?.error;
         if (status === 'failure') {
-            if (error && String(error).includes('::config::is_allowed')) {
-                throw new Error(
-                    `Permission check failed in factory config (config::is_allowed). ` +
-                    `The signer ${sender} is not authorized to launch. ` +
-                    `Have the admin add your address to the allowlist or use an open factory.`,
-                );
-            }
-            throw new Error(`Move abort in preflight: ${error ?? 'unknown error'}`);
+            throw this.aborts.toError(String(error ?? 'unknown error'), `launch_idol preflight for ${sender}`);
         }
 
-        // ----- Execute for real -----
-        const result = await this.client.signAndExecuteTransaction({
-            signer: this.keypair,
-            transaction: tx,
-            requestType: 'WaitForLocalExecution',
-            options: { showObjectChanges: true, showEffects: true },
-        });
+        const gasUsed = (di as any)?.effects?.gasUsed;
+        if (!gasUsed) throw new Error('Preflight returned no gas usage to derive a gas budget from');
+        const estimate = BigInt(gasUsed.computationCost) + BigInt(gasUsed.storageCost);
+        const budget = (estimate * (10_000n + this.gasBudgetMarginBps)) / 10_000n;
+        tx.setGasBudget(budget);
+        return budget;
+    }
 
+    // Wait for indexing, then pull the IAO pool, LPCap and creator tokens out of a launch_idol result
+    private async finalizeRegister(result: any, coinType: string): Promise<RegisteredIdolAsset> {
         await this.client.waitForTransaction({
             digest: result.digest,
             options: { showEffects: true, showObjectChanges: true },
         });
 
-        const createdObjects = result.objectChanges?.filter((o) => o.type === 'created');
-        const lpCap = createdObjects?.find((o) => o.objectType.includes('::iao::LPCap'));
-        const creatorTokens = createdObjects?.find((o) => o.objectType.includes('::coin::Coin'));
-        const poolObject = createdObjects?.find((o) => o.objectType.includes('::iao::IAO'));
+        const createdObjects = result.objectChanges?.filter((o: any) => o.type === 'created');
+        const lpCap = createdObjects?.find((o: any) => o.objectType.includes('::iao::LPCap'));
+        const creatorTokens = createdObjects?.find((o: any) => o.objectType.includes('::coin::Coin'));
+        const poolObject = createdObjects?.find((o: any) => o.objectType.includes('::iao::IAO'));
 
         if (!poolObject || !('objectId' in poolObject)) {
             console.error('[SUI Service] Failed to find Pool object in transaction results:', result);
             throw new Error('Failed to find Pool object after asset registration.');
         }
 
+        // The new pool changes what the bonding-curve getters return for this coin
+        this.invalidateReadCache(coinType);
+
         return {
             digest: result.digest,
             poolId: (poolObject as any).objectId,
@@ -358,35 +629,595 @@ export class SuiBlockchainService {
         };
     }
 
+    async registerAsset(
+        idolToken: {
+            packageId: string;
+            treasuryCapId?: string;
+            moduleName: string;
+            structName: string;
+            coinType: string;
+        },
+        createParams: IdolCreateRequest,
+    ): Promise<RegisteredIdolAsset> {
+        const { tx, liquidityMist } = await this.buildRegisterTransaction(idolToken, createParams);
+        const budget = await this.preflightRegister(tx, this.signer.address);
+        await this.assertBalance(this.signer.address, liquidityMist + budget, 'launch_idol');
+
+        // ----- Execute for real -----
+        // The liquidity is split off the gas coin, so the leased coin must cover both
+        const result = await this.signAndExecute(tx, liquidityMist + budget);
+
+        return this.finalizeRegister(result, idolToken.coinType);
+    }
+
+    // --------- Preview (nothing is signed or executed) ---------
+
     /**
-     * Read-only price query using bonding_curve::get_marginal_price<CoinX, CoinY>(config: &GlobalConfig): u64
-     * - CoinX defaults to SUI unless overridden via env COINX_TYPE
-     * - CoinY is the provided idolCoinType (e.g., `${pkg}::${mod}::${STRUCT}`)
-     * - config object is BONDING_CURVE_GLOBAL_CONFIG_ID
+     * Simulate a server-signed launch: build the coin package, dry-run its publish, then run the
+     * launch_idol preflight (devInspect) and a dry run against PREVIEW_TREASURY_CAP_ID, since the
+     * real TreasuryCap only exists after publishing. Step failures are reported, not thrown.
+     */
+    async previewLaunch(params: IdolTokenParams, createParams: IdolCreateRequest): Promise<LaunchPreview> {
+        const sender = this.signer.address;
+        const template = coinTemplate(params.template);
+        const liquidityMist = template.launchesIao ? this.initialLiquidityMist(createParams) : 0n;
+
+        const { tx: publishTx, moduleName, structName, modules, dependencies } =
+            await this.buildPublishTransaction(params, sender);
+        const preview: LaunchPreview = {
+            moduleName,
+            structName,
+            template: template.id,
+            package: { modules, moduleBytes: modules.map((m) => Buffer.from(m, 'base64').length), dependencies },
+            publish: { ok: false },
+            register: { ok: false },
+            initialLiquidityMist: liquidityMist.toString(),
+        };
+
+        // ---- publish: the SDK's own dry run sets the budget, a second one reports the effects ----
+        publishTx.setSender(sender);
+        let publishBudget: bigint | undefined;
+        try {
+            const bytes = await publishTx.build({ client: this.client });
+            publishBudget = BigInt(publishTx.getData().gasData.budget!);
+            const dry = await this.client.dryRunTransactionBlock({ transactionBlock: bytes });
+            const packageId = (dry.objectChanges as any[]).find((o) => o.type === 'published')?.packageId;
+            preview.publish = {
+                ...this.previewStep(dry, publishBudget),
+                packageId,
+                coinType: packageId ? `${packageId}::${moduleName}::${structName}` : undefined,
+            };
+        } catch (e: any) {
+            // The SDK's budget dry run reports aborts inside its own error message
+            const error = e?.message || String(e);
+            preview.publish = { ok: false, error, abort: this.aborts.decode(error) };
+        }
+
+        // ---- launch_idol against the placeholder TreasuryCap ----
+        if (!template.launchesIao) {
+            preview.register = { ok: false, skipped: `The ${template.id} coin template opens no IAO` };
+            if (preview.publish.ok && publishBudget) preview.totalEstimatedMist = publishBudget.toString();
+            return preview;
+        }
+        if (!this.previewTreasuryCapId) {
+            preview.register = { ok: false, skipped: 'Set PREVIEW_TREASURY_CAP_ID to simulate launch_idol' };
+            return preview;
+        }
+        let registerBudget: bigint | undefined;
+        try {
+            const cap = await this.client.getObject({ id: this.previewTreasuryCapId, options: { showType: true } });
+            const placeholderCoinType = /::coin::TreasuryCap<(.+)>$/.exec(cap.data?.type ?? '')?.[1];
+            if (!placeholderCoinType) {
+                throw new Error(`PREVIEW_TREASURY_CAP_ID ${this.previewTreasuryCapId} is not a TreasuryCap`);
+            }
+            preview.register.placeholderCoinType = placeholderCoinType;
+
+            const { tx } = await this.buildRegisterTransaction(
+                { treasuryCapId: this.previewTreasuryCapId, coinType: placeholderCoinType },
+                createParams,
+            );
+            tx.setSender(sender);
+            registerBudget = await this.preflightRegister(tx, sender); // decodes config::is_allowed aborts
+            const dry = await this.client.dryRunTransactionBlock({
+                transactionBlock: await tx.build({ client: this.client }),
+            });
+            const step = this.previewStep(dry, registerBudget);
+            // Report types for the coin being previewed rather than the placeholder's
+            const coinType = preview.publish.coinType;
+            if (coinType) step.objectTypes = step.objectTypes?.map((t) => t.split(placeholderCoinType).join(coinType));
+            preview.register = { ...step, placeholderCoinType };
+        } catch (e: any) {
+            preview.register = { ...preview.register, ok: false, error: e?.message || String(e), abort: e?.moveAbort };
+        }
+
+        if (preview.publish.ok && preview.register.ok && publishBudget && registerBudget) {
+            preview.totalEstimatedMist = (publishBudget + registerBudget + liquidityMist).toString();
+        }
+        return preview;
+    }
+
+    // Gas, created object types and abort (if any) of a dry run
+    private previewStep(dry: any, budget: bigint): LaunchPreviewStep {
+        const g = dry.effects?.gasUsed;
+        const gas: GasEstimate | undefined = g && {
+            computationCost: g.computationCost,
+            storageCost: g.storageCost,
+            storageRebate: g.storageRebate,
+            totalMist: (BigInt(g.computationCost) + BigInt(g.storageCost) - BigInt(g.storageRebate)).toString(),
+            budgetMist: budget.toString(),
+        };
+        const objectTypes = (dry.objectChanges ?? [])
+            .filter((o: any) => o.type === 'created' && typeof o.objectType === 'string')
+            .map((o: any) => o.objectType as string);
+        const status = dry.effects?.status;
+        if (status?.status !== 'failure') return { ok: true, gas, objectTypes };
+        const error = status.error ?? 'unknown error';
+        return { ok: false, gas, objectTypes, error, abort: this.aborts.decode(error) };
+    }
+
+    // Build with the server address as sender, sign through the configured signer, execute and
+    // wait for local execution so follow-up reads on the same node see the result.
+    // With a gas pool, the transaction pays with a leased coin holding at least `minGasBalance`.
+    // `onSubmitted` receives the digest after signing, before the transaction is sent.
+    private async signAndExecute(tx: Transaction, minGasBalance?: bigint, onSubmitted?: (digest: string) => void) {
+        tx.setSenderIfNotSet(this.signer.address);
+        const lease = await this.gasPool?.lease(minGasBalance);
+        let submitted = false;
+        let result;
+        try {
+            if (lease) tx.setGasPayment([lease.coin]);
+            const bytes = await tx.build({ client: this.client });
+            const { signature } = await this.signer.signTransaction(bytes);
+            onSubmitted?.(TransactionDataBuilder.getDigestFromBytes(bytes));
+            submitted = true;
+            result = await this.client.executeTransactionBlock({
+                transactionBlock: bytes,
+                signature,
+                requestType: 'WaitForLocalExecution',
+                options: { showObjectChanges: true, showEffects: true },
+            });
+        } catch (error) {
+            // A failed submission may still land on chain; don't hand out the coin's old version again
+            if (lease) await this.gasPool!.release(lease.id, { failed: submitted });
+            throw error;
+        }
+        if (lease) await this.gasPool!.release(lease.id);
+
+        const status = result.effects?.status;
+        if (status?.status === 'failure') {
+            throw this.aborts.toError(status.error ?? 'unknown error', `transaction ${result.digest} failed on chain`);
+        }
+        return result;
+    }
+
+    // --------- Wallet-signed (unsigned transaction) mode ---------
+    // `sponsored`: the creator is still sender and owner of every result, but the server address
+    // pays gas from coins locked by the GasStation, and co-signs as gas owner up front.
+
+    /**
+     * Build the publish transaction for `sender` to sign with their own wallet. The sender
+     * receives the UpgradeCap and TreasuryCap and pays gas unless sponsored. Returns base64 BCS
+     * TransactionData bytes plus the module/OTW names needed to interpret the result.
+     */
+    async buildUnsignedPublish(
+        params: IdolTokenParams,
+        sender: string,
+        opts: { sponsored?: boolean } = {},
+    ): Promise<UnsignedWalletTx & { moduleName: string; structName: string; template: CoinTemplateId }> {
+        const { tx, moduleName, structName, template } = await this.buildPublishTransaction(params, sender);
+        return { ...(await this.buildForWallet(tx, sender, opts.sponsored)), moduleName, structName, template };
+    }
+
+    /** Build launch_idol for `sender` (who must own the TreasuryCap) after a preflight devInspect. */
+    async buildUnsignedRegister(
+        idolToken: { treasuryCapId?: string; coinType: string },
+        createParams: IdolCreateRequest,
+        sender: string,
+        opts: { sponsored?: boolean } = {},
+    ): Promise<UnsignedWalletTx> {
+        // A sponsored tx's gas coin belongs to the sponsor, so liquidity must come from the creator's coins
+        const { tx, liquidityMist } = await this.buildRegisterTransaction(idolToken, createParams, {
+            liquidityFromGas: !opts.sponsored,
+        });
+        tx.setSender(sender);
+        const budget = await this.preflightRegister(tx, sender);
+        await this.assertBalance(sender, liquidityMist + (opts.sponsored ? 0n : budget), 'launch_idol');
+        return this.buildForWallet(tx, sender, opts.sponsored);
+    }
+
+    private async buildForWallet(tx: Transaction, sender: string, sponsored?: boolean): Promise<UnsignedWalletTx> {
+        tx.setSender(sender);
+        if (!sponsored) {
+            return { txBytes: toBase64(await tx.build({ client: this.client })) };
+        }
+
+        if (!this.gasStation) throw new Error('Gas sponsorship is not enabled (set GAS_SPONSOR_ENABLED=true)');
+        const reservation = await this.gasStation.reserve(sender);
+        try {
+            tx.setGasOwner(reservation.owner);
+            tx.setGasPayment(reservation.coins);
+            if (!tx.getData().gasData.budget) tx.setGasBudget(reservation.maxBudget);
+            const bytes = await tx.build({ client: this.client });
+            this.gasStation.confirmBudget(reservation.id, BigInt(tx.getData().gasData.budget!));
+            const { signature } = await this.signer.signTransaction(bytes);
+            return { txBytes: toBase64(bytes), sponsorSignature: signature, gasReservationId: reservation.id };
+        } catch (e) {
+            this.gasStation.release(reservation.id);
+            throw e;
+        }
+    }
+
+    // Submit wallet-signed bytes exactly as built; the node verifies the signature(s) against sender and gas owner
+    private async executeSigned(pending: UnsignedWalletTx, signature: string | string[]) {
+        if (pending.gasReservationId && !this.gasStation?.isActive(pending.gasReservationId)) {
+            // The sponsor's coins were unlocked; submitting could equivocate with another transaction
+            throw Object.assign(new Error('Gas sponsorship for this transaction expired; fetch the rebuilt bytes'), {
+                rejected: true,
+                expired: true,
+            });
+        }
+        const signatures = [...(Array.isArray(signature) ? signature : [signature])];
+        if (pending.sponsorSignature) signatures.push(pending.sponsorSignature);
+
+        let result;
+        try {
+            result = await this.client.executeTransactionBlock({
+                transactionBlock: pending.txBytes,
+                signature: signatures,
+                requestType: 'WaitForLocalExecution',
+                options: { showObjectChanges: true, showEffects: true },
+            });
+        } catch (e: any) {
+            // Nothing executed (bad signature, stale object versions...): the caller may sign again
+            throw Object.assign(new Error(`Signed transaction rejected: ${e?.message || String(e)}`), { rejected: true });
+        }
+
+        // Gas is charged whether or not the transaction aborted
+        if (pending.gasReservationId && this.gasStation) {
+            const gas = result.effects?.gasUsed;
+            const used = gas ? BigInt(gas.computationCost) + BigInt(gas.storageCost) - BigInt(gas.storageRebate) : 0n;
+            this.gasStation.settle(pending.gasReservationId, used);
+        }
+
+        const status = result.effects?.status;
+        if (status?.status === 'failure') {
+            throw this.aborts.toError(status.error ?? 'unknown error', `transaction ${result.digest} failed on chain`);
+        }
+        return result;
+    }
+
+    /** Unlock sponsor gas coins held for a pending transaction that will not be submitted. */
+    releaseSponsorship(gasReservationId?: string) {
+        if (gasReservationId) this.gasStation?.release(gasReservationId);
+    }
+
+    gasSponsorUsage(sender?: string) {
+        return this.gasStation?.usage(sender);
+    }
+
+    gasPoolStats() {
+        return this.gasPool?.stats();
+    }
+
+    async submitSignedPublish(
+        pending: UnsignedWalletTx & { moduleName: string; structName: string; template?: CoinTemplateId },
+        signature: string | string[],
+    ): Promise<PublishedIdolToken> {
+        const result = await this.executeSigned(pending, signature);
+        return this.finalizePublish(result, pending.moduleName, pending.structName, pending.template);
+    }
+
+    async submitSignedRegister(
+        pending: UnsignedWalletTx,
+        signature: string | string[],
+        coinType: string,
+    ): Promise<RegisteredIdolAsset> {
+        const result = await this.executeSigned(pending, signature);
+        return this.finalizeRegister(result, coinType);
+    }
+
+    // --------- Event indexer ---------
+
+    /**
+     * Indexer over this deployment's event sources: INDEXER_EVENT_MODULES when set, otherwise
+     * factory + iao in FACTORY_PACKAGE_ID and pools + the bonding curve module in POOLS_PACKAGE_ID.
+     */
+    createEventIndexer(store: EventIndexStore, env: Pick<Env, 'INDEXER_EVENT_MODULES' | 'INDEXER_POLL_MS'>): EventIndexer {
+        const sources = env.INDEXER_EVENT_MODULES
+            ? env.INDEXER_EVENT_MODULES.split(',').map((s) => s.trim()).filter(Boolean)
+            : [
+                `${this.factoryPackageId}::factory`,
+                `${this.factoryPackageId}::iao`,
+                ...(this.poolsPackageId ? [`${this.poolsPackageId}::pools`, `${this.poolsPackageId}::${this.bcModule}`] : []),
+            ];
+        for (const source of sources) {
+            const [pkg, module] = source.split('::');
+            assertMoveIdentifier(module ?? '', `INDEXER_EVENT_MODULES entry "${source}"`);
+            if (!pkg?.startsWith('0x')) throw new Error(`INDEXER_EVENT_MODULES entry "${source}" must be <package>::<module>`);
+        }
+        return new EventIndexer(this.client, store, {
+            sources,
+            pollMs: Number(env.INDEXER_POLL_MS ?? 5_000),
+            quoteCoinType: this.quoteCoinType ?? '0x2::sui::SUI',
+        });
+    }
+
+    // --------- Deployment ---------
+
+    /**
+     * Look up every configured object ID on this network and compare its type with
+     * `expectedTypes` (falling back to DEFAULT_EXPECTED_TYPES). Throws only when the RPC call fails.
      */
-    async getMarginalPriceForIdol(idolCoinType: string): Promise<{ rawReturn?: any }> {
-        const pkg = this.poolsPackageId; // fallback to factory pkg if not specified
-        if (!pkg) throw new Error('No package ID configured for get_marginal_price');
+    async checkDeploymentObjects(
+        expectedTypes: Partial<Record<DeploymentObjectKey, string>> = {},
+    ): Promise<DeploymentObjectCheck[]> {
+        const entries = Object.entries(this.deploymentObjects) as Array<[DeploymentObjectKey, string]>;
+        const objects = await this.client.multiGetObjects({
+            ids: entries.map(([, id]) => id),
+            options: { showType: true },
+        });
+        return entries.map(([key, objectId], i) => {
+            const expectedType = expectedTypes[key] ?? DEFAULT_EXPECTED_TYPES[key];
+            const actualType = objects[i]?.data?.type ?? undefined;
+            if (!actualType) {
+                return { key, objectId, expectedType, ok: false, error: `not found (${objects[i]?.error?.code ?? 'no data'})` };
+            }
+            const ok = !expectedType || matchesExpectedType(actualType, expectedType);
+            return { key, objectId, expectedType, actualType, ok, error: ok ? undefined : `expected ${expectedType}` };
+        });
+    }
+
+    // --------- Readiness ---------
+
+    getChainIdentifier(): Promise<string> {
+        return this.client.getChainIdentifier();
+    }
+
+    getLatestCheckpoint(): Promise<string> {
+        return this.client.getLatestCheckpointSequenceNumber();
+    }
+
+    async getSignerBalance(): Promise<{ address: string; balanceMist: bigint }> {
+        const { totalBalance } = await this.client.getBalance({ owner: this.signer.address, coinType: '0x2::sui::SUI' });
+        return { address: this.signer.address, balanceMist: BigInt(totalBalance) };
+    }
+
+    /** SUI one server-signed launch needs up front: default initial liquidity plus estimated gas. */
+    launchFundsEstimateMist(): bigint {
+        return this.liquidity.default + LAUNCH_GAS_ESTIMATE_MIST;
+    }
+
+    /**
+     * Whether the server signer passes factory config::is_allowed (devInspect, nothing executes).
+     * An allowlist abort counts as "not allowed"; any other failure is thrown.
+     */
+    async isSignerAllowed(): Promise<boolean> {
+        const tx = new Transaction();
+        tx.moveCall({
+            target: `${this.factoryPackageId}::config::is_allowed`,
+            arguments: [tx.object(this.allowlistConfigId), tx.pure.address(this.signer.address)],
+        });
+        const di = await this.client.devInspectTransactionBlock({ sender: this.signer.address, transactionBlock: tx });
+        const error = di.effects?.status?.error ?? di.error;
+        if (error) {
+            if (this.aborts.decode(String(error))?.errorCode === 'LAUNCHER_NOT_ALLOWED') return false;
+            throw this.aborts.toError(String(error), 'config::is_allowed');
+        }
+        const bytes = di.results?.[0]?.returnValues?.[0]?.[0];
+        if (!bytes) throw new Error('config::is_allowed returned no value');
+        return bcs.bool().parse(Uint8Array.from(bytes));
+    }
+
+    // --------- Graduation ---------
+
+    /**
+     * SUI (MIST) an IAO has raised, at GRADUATION_RAISED_FIELD: a field (dot path) of the IAO
+     * object, or get_current_supply[<i>] for the i-th value the bonding curve reports.
+     */
+    async getIaoRaisedMist(poolId: string, coinType: string): Promise<bigint> {
+        const field = this.graduation.raisedField;
+        if (!field) throw new Error('GRADUATION_RAISED_FIELD is not set');
+
+        const curveIndex = CURVE_RAISED_FIELD.exec(field)?.[1];
+        if (curveIndex !== undefined) {
+            const { supplyRaw } = await this.getCurrentSupplyForIdol(coinType);
+            const value = Array.isArray(supplyRaw) ? supplyRaw[Number(curveIndex)] : curveIndex === '0' ? supplyRaw : undefined;
+            if (value === undefined) throw new Error(`get_current_supply for ${coinType} has no value at index ${curveIndex}`);
+            return BigInt(value);
+        }
+
+        const res = await this.client.getObject({ id: poolId, options: { showContent: true } });
+        const fields = (res.data?.content as any)?.fields;
+        if (!fields) throw new Error(`IAO ${poolId} not found on chain`);
+        // Nested structs render as { type, fields }; Balance<SUI> renders as its u64 string
+        const v = field.split('.').reduce((o: any, key) => (o?.fields ?? o)?.[key], fields);
+        if ((typeof v === 'string' || typeof v === 'number') && /^\d+$/.test(String(v))) return BigInt(v);
+        throw new Error(`IAO ${poolId} has no u64 at ${field} (GRADUATION_RAISED_FIELD)`);
+    }
+
+    /** Call GRADUATION_MIGRATE_TARGET to move a graduated IAO's liquidity into a Cetus pool. */
+    async migrateToCetus(poolId: string, coinType: string): Promise<{ digest: string; cetusPoolId?: string }> {
+        const { migrateTarget } = this.graduation;
+        if (!migrateTarget) throw new Error('GRADUATION_MIGRATE_TARGET is not set');
+        const objects: Record<MigrateArgName, string> = {
+            pool: poolId,
+            iaoConfig: this.iaoConfigId,
+            iaoRegistry: this.iaoRegistryId,
+            poolsConfig: this.poolsConfigId,
+            poolsRegistry: this.poolsRegistryId,
+            cetusConfig: this.cetusConfigId,
+            cetusPools: this.cetusPoolsId,
+            clock: this.clockId,
+        };
+        const tx = new Transaction();
+        tx.moveCall({
+            target: migrateTarget,
+            typeArguments: [coinType],
+            arguments: this.graduation.migrateArgs.map((name) => tx.object(objects[name])),
+        });
+        const result = await this.signAndExecute(tx);
+
+        // Trading moved to Cetus, so cached bonding-curve reads are stale
+        this.invalidateReadCache(coinType);
+        const cetusPool = result.objectChanges?.find(
+            (o: any) => o.type === 'created' && typeof o.objectType === 'string' && o.objectType.includes('::pool::Pool<'),
+        ) as any;
+        return { digest: result.digest, cetusPoolId: cetusPool?.objectId };
+    }
+
+    // --------- Cap custody ---------
+
+    /**
+     * Every UpgradeCap and TreasuryCap the server signer owns, grouped per idol package.
+     * `coinTypeForPackage` names the coin of packages whose TreasuryCap is no longer held here.
+     */
+    async listCustodyCaps(coinTypeForPackage?: (packageId: string) => string | undefined): Promise<CapCustodyGroup[]> {
+        const caps: CustodyCap[] = [];
+        let cursor: string | null | undefined;
+        do {
+            const page = await this.client.getOwnedObjects({
+                owner: this.signer.address,
+                filter: { MatchAny: [{ StructType: UPGRADE_CAP_TYPE }, { StructType: TREASURY_CAP_TYPE }] },
+                options: { showType: true, showContent: true },
+                cursor,
+            });
+            for (const o of page.data) {
+                const cap = custodyCap(o.data);
+                if (cap) caps.push(cap);
+            }
+            cursor = page.hasNextPage ? page.nextCursor : null;
+        } while (cursor);
+        return groupCaps(caps, coinTypeForPackage);
+    }
+
+    /** The cap with this ID if the server signer owns it; errors carry `notFound` otherwise. */
+    async getCustodyCap(objectId: string): Promise<CustodyCap> {
+        const res = await this.client.getObject({
+            id: objectId,
+            options: { showType: true, showContent: true, showOwner: true },
+        });
+        const cap = custodyCap(res.data);
+        const owner = (res.data?.owner as any)?.AddressOwner;
+        if (!cap || owner !== this.signer.address) {
+            throw Object.assign(new Error(`No UpgradeCap or TreasuryCap ${objectId} held by ${this.signer.address}`), {
+                notFound: true,
+            });
+        }
+        return cap;
+    }
+
+    /** Hand a cap the server holds to another address (a creator or a multisig). */
+    async transferCap(objectId: string, recipient: string): Promise<{ digest: string; cap: CustodyCap; recipient: string }> {
+        const cap = await this.getCustodyCap(objectId);
+        const tx = new Transaction();
+        tx.transferObjects([tx.object(objectId)], tx.pure.address(recipient));
+        const result = await this.signAndExecute(tx);
+        console.log(`[SUI Service] Transferred ${cap.kind} ${objectId} to ${recipient} (${result.digest})`);
+        return { digest: result.digest, cap, recipient };
+    }
+
+    /**
+     * Decimals from the coin's CoinMetadata. Metadata is frozen at publish, so results are cached.
+     */
+    async getCoinDecimals(coinType: string): Promise<number> {
+        const cached = this.decimalsCache.get(coinType);
+        if (cached !== undefined) return cached;
+        const meta = await this.client.getCoinMetadata({ coinType });
+        if (!meta) throw new Error(`CoinMetadata not found for ${coinType}`);
+        this.decimalsCache.set(coinType, meta.decimals);
+        return meta.decimals;
+    }
+
+    // Appends bonding_curve::<fn><CoinX, CoinY>(config) to a PTB
+    private addBondingCurveCall(tx: Transaction, fn: string, idolCoinType: string) {
+        const pkg = this.poolsPackageId;
+        if (!pkg) throw new Error(`No package ID configured for ${fn}`);
 
         // Prefer explicit bonding-curve global config if provided; fallback to pools config
         const configId = this.bcGlobalConfigId ?? this.poolsConfigId;
 
-        const tx = new Transaction();
         tx.moveCall({
-            target: `${pkg}::${this.bcModule}::get_marginal_price`,
+            target: `${pkg}::${this.bcModule}::${fn}`,
             typeArguments: [this.quoteCoinType!, idolCoinType],
             arguments: [tx.object(configId)],
         });
+    }
+
+    private readCacheKey(fn: string, idolCoinType: string): string {
+        const configId = this.bcGlobalConfigId ?? this.poolsConfigId;
+        return [fn, this.quoteCoinType, idolCoinType, configId].join('|');
+    }
+
+    readCacheStats(): CacheStats {
+        return this.readCache.stats();
+    }
+
+    /** Drop cached bonding-curve reads for one coin type (or everything), e.g. after a new pool registers. */
+    invalidateReadCache(idolCoinType?: string): number {
+        return this.readCache.invalidate((key) => !idolCoinType || key.split('|')[2] === idolCoinType);
+    }
+
+    // Runs a single bonding-curve getter through devInspect and returns the raw returnValues.
+    // Identical concurrent calls share one RPC; results are reused for READ_CACHE_TTL_MS.
+    private inspectBondingCurve(fn: string, idolCoinType: string): Promise<DevInspectReturnValue[]> {
+        return this.readCache.get(this.readCacheKey(fn, idolCoinType), () =>
+            this.inspectBondingCurveUncached(fn, idolCoinType),
+        );
+    }
+
+    private async inspectBondingCurveUncached(fn: string, idolCoinType: string): Promise<DevInspectReturnValue[]> {
+        const tx = new Transaction();
+        this.addBondingCurveCall(tx, fn, idolCoinType);
 
-        const sender = this.keypair.getPublicKey().toSuiAddress();
+        const sender = this.signer.address;
         const di = await this.client.devInspectTransactionBlock({ sender, transactionBlock: tx });
 
         const rawReturn = (di as any)?.results?.[0]?.returnValues;
         if (!rawReturn || !rawReturn.length) {
             const err = (di as any)?.effects?.status?.error ?? (di as any)?.error;
-            throw new Error(`No return value from get_marginal_price. ${err ? 'DevInspect error: ' + err : ''}`);
+            if (err) throw this.aborts.toError(String(err), `no return value from ${fn}`);
+            throw new Error(`No return value from ${fn}.`);
         }
-        return { rawReturn };
+        return rawReturn;
+    }
+
+    private formatPrice(priceRaw: string, coinDecimals: number, quoteDecimals: number): string {
+        return formatUnits(BigInt(priceRaw) * 10n ** BigInt(coinDecimals), quoteDecimals);
+    }
+
+    /**
+     * Read-only price query using bonding_curve::get_marginal_price<CoinX, CoinY>(config: &GlobalConfig): u64
+     * - CoinX defaults to SUI unless overridden via env COINX_TYPE
+     * - CoinY is the provided idolCoinType (e.g., `${pkg}::${mod}::${STRUCT}`)
+     * - config object is BONDING_CURVE_GLOBAL_CONFIG_ID
+     * The u64 is quote base units per idol base unit; `price` is quote coins per whole idol coin.
+     */
+    async getMarginalPriceForIdol(idolCoinType: string): Promise<{
+        price: string;
+        priceRaw: string;
+        coinDecimals: number;
+        quoteCoinType: string;
+        quoteDecimals: number;
+        rawReturn: DevInspectReturnValue[];
+    }> {
+        const rawReturn = await this.inspectBondingCurve('get_marginal_price', idolCoinType);
+        const priceRaw = decodeU64Return(rawReturn[0]);
+        if (Array.isArray(priceRaw)) throw new Error('get_marginal_price returned a vector; expected u64');
+
+        const quoteCoinType = this.quoteCoinType!;
+        const [coinDecimals, quoteDecimals] = await Promise.all([
+            this.getCoinDecimals(idolCoinType),
+            this.getCoinDecimals(quoteCoinType),
+        ]);
+
+        return {
+            price: this.formatPrice(priceRaw, coinDecimals, quoteDecimals),
+            priceRaw,
+            coinDecimals,
+            quoteCoinType,
+            quoteDecimals,
+            rawReturn,
+        };
     }
 
     /**
@@ -394,35 +1225,250 @@ export class SuiBlockchainService {
      * - CoinX defaults to SUI unless overridden via env COINX_TYPE
      * - CoinY is the provided idolCoinType (e.g., `${pkg}::${mod}::${STRUCT}`)
      * - config object prefers BONDING_CURVE_GLOBAL_CONFIG_ID, falls back to POOLS_CONFIG_ID
-     * Returns the raw dev-inspect returnValues array so the caller can decode as needed.
+     * Values are returned both raw (base units) and normalized by the idol coin's decimals.
+     */
+    async getCurrentSupplyForIdol(idolCoinType: string): Promise<{
+        supply: string | string[];
+        supplyRaw: string | string[];
+        coinDecimals: number;
+        rawReturn: DevInspectReturnValue[];
+    }> {
+        const rawReturn = await this.inspectBondingCurve('get_current_supply', idolCoinType);
+        const supplyRaw = decodeU64Return(rawReturn[0]);
+        const coinDecimals = await this.getCoinDecimals(idolCoinType);
+
+        return {
+            supply: Array.isArray(supplyRaw)
+                ? supplyRaw.map((v) => formatUnits(v, coinDecimals))
+                : formatUnits(supplyRaw, coinDecimals),
+            supplyRaw,
+            coinDecimals,
+            rawReturn,
+        };
+    }
+
+    /**
+     * Price and supply for many idol coins in as few devInspect round trips as possible: one PTB
+     * with get_marginal_price + get_current_supply per coin. When a coin's call aborts, that coin
+     * gets an error entry and the rest of the batch is inspected again without it.
      */
-    async getCurrentSupplyForIdol(idolCoinType: string): Promise<{ rawReturn?: any }> {
-        const pkg = this.poolsPackageId; // fallback to factory pkg if not specified
-        if (!pkg) throw new Error('No package ID configured for get_current_supply');
+    async getMarketSnapshot(coinTypes: string[]): Promise<MarketSnapshotEntry[]> {
+        const entries = new Map<string, MarketSnapshotEntry>();
+        const valid: string[] = [];
+        for (const coinType of new Set(coinTypes)) {
+            try {
+                normalizeStructTag(coinType);
+                valid.push(coinType);
+            } catch {
+                entries.set(coinType, { coinType, error: 'Malformed coin type' });
+            }
+        }
+
+        // Coins whose price and supply are both still cached skip the devInspect entirely
+        const uncached: string[] = [];
+        for (const coinType of valid) {
+            const price = this.readCache.peek(this.readCacheKey('get_marginal_price', coinType));
+            const supply = this.readCache.peek(this.readCacheKey('get_current_supply', coinType));
+            if (price && supply) {
+                entries.set(coinType, await this.toSnapshotEntry(coinType, price, supply));
+            } else {
+                uncached.push(coinType);
+            }
+        }
+
+        await this.inspectSnapshotBatch(uncached, entries);
+        return [...new Set(coinTypes)].map((coinType) => entries.get(coinType)!);
+    }
+
+    private async inspectSnapshotBatch(batch: string[], entries: Map<string, MarketSnapshotEntry>): Promise<void> {
+        if (!batch.length) return;
+
+        const tx = new Transaction();
+        for (const coinType of batch) {
+            this.addBondingCurveCall(tx, 'get_marginal_price', coinType);
+            this.addBondingCurveCall(tx, 'get_current_supply', coinType);
+        }
+
+        // Split a batch that failed without telling us which coin caused it
+        const bisect = async (error: string) => {
+            if (batch.length === 1) {
+                entries.set(batch[0], { coinType: batch[0], error });
+                return;
+            }
+            const mid = Math.ceil(batch.length / 2);
+            await this.inspectSnapshotBatch(batch.slice(0, mid), entries);
+            await this.inspectSnapshotBatch(batch.slice(mid), entries);
+        };
 
+        const sender = this.signer.address;
+        let di: any;
+        try {
+            di = await this.client.devInspectTransactionBlock({ sender, transactionBlock: tx });
+        } catch (e: any) {
+            // e.g. a type argument naming a package/module that doesn't exist fails at the RPC level
+            return bisect(e?.message || String(e));
+        }
+
+        const status = di?.effects?.status?.status ?? di?.effects?.status;
+        if (status === 'failure') {
+            const error = String(di?.effects?.status?.error ?? di?.error ?? 'unknown error');
+            const command = /command (\d+)/i.exec(error);
+            if (command) {
+                const failed = Math.floor(Number(command[1]) / 2);
+                if (failed < batch.length) {
+                    entries.set(batch[failed], { coinType: batch[failed], error });
+                    return this.inspectSnapshotBatch(batch.filter((_, i) => i !== failed), entries);
+                }
+            }
+            return bisect(error);
+        }
+
+        await Promise.all(
+            batch.map(async (coinType, i) => {
+                const price = di.results[2 * i].returnValues;
+                const supply = di.results[2 * i + 1].returnValues;
+                this.readCache.set(this.readCacheKey('get_marginal_price', coinType), price);
+                this.readCache.set(this.readCacheKey('get_current_supply', coinType), supply);
+                entries.set(coinType, await this.toSnapshotEntry(coinType, price, supply));
+            }),
+        );
+    }
+
+    private async toSnapshotEntry(
+        coinType: string,
+        price: DevInspectReturnValue[],
+        supply: DevInspectReturnValue[],
+    ): Promise<MarketSnapshotEntry> {
+        try {
+            const priceRaw = decodeU64Return(price[0]);
+            const supplyRaw = decodeU64Return(supply[0]);
+            if (Array.isArray(priceRaw)) throw new Error('get_marginal_price returned a vector; expected u64');
+            const [coinDecimals, quoteDecimals] = await Promise.all([
+                this.getCoinDecimals(coinType),
+                this.getCoinDecimals(this.quoteCoinType!),
+            ]);
+            return {
+                coinType,
+                price: this.formatPrice(priceRaw, coinDecimals, quoteDecimals),
+                priceRaw,
+                supply: Array.isArray(supplyRaw)
+                    ? supplyRaw.map((v) => formatUnits(v, coinDecimals))
+                    : formatUnits(supplyRaw, coinDecimals),
+                supplyRaw,
+                coinDecimals,
+            };
+        } catch (e: any) {
+            return { coinType, error: e?.message || String(e) };
+        }
+    }
+
+    /**
+     * Simulate a buy (quote coin -> idol coin) or sell (idol coin -> quote coin) on the bonding curve.
+     * Calls bonding_curve::buy|sell<CoinX, CoinY>(config, coin_in, min_out: u64, clock) -> Coin<out>
+     * through devInspect, so nothing is executed. The input coin is drawn from `sender`'s balance
+     * (gas coin for SUI), so sell quotes need a sender that holds the idol coin.
+     * `amountIn` is in whole units of the input coin.
+     */
+    async quoteTrade(
+        side: TradeSide,
+        idolCoinType: string,
+        amountIn: string,
+        opts: { sender?: string; feeRateBps?: number; slippageBps?: number } = {},
+    ): Promise<TradeQuote> {
+        const pkg = this.poolsPackageId;
+        if (!pkg) throw new Error('No package ID configured for bonding-curve trades');
         const configId = this.bcGlobalConfigId ?? this.poolsConfigId;
+        const quoteCoinType = this.quoteCoinType!;
+
+        const [coinDecimals, quoteDecimals, marginal] = await Promise.all([
+            this.getCoinDecimals(idolCoinType),
+            this.getCoinDecimals(quoteCoinType),
+            this.getMarginalPriceForIdol(idolCoinType),
+        ]);
+        const inType = side === 'buy' ? quoteCoinType : idolCoinType;
+        const inDecimals = side === 'buy' ? quoteDecimals : coinDecimals;
+        const outDecimals = side === 'buy' ? coinDecimals : quoteDecimals;
+        const amountInRaw = parseUnits(amountIn, inDecimals);
+        if (amountInRaw <= 0n) throw new Error('amountIn must be greater than 0');
 
+        const sender = opts.sender ?? this.signer.address;
         const tx = new Transaction();
-        tx.moveCall({
-            target: `${pkg}::${this.bcModule}::get_current_supply`,
-            typeArguments: [this.quoteCoinType!, idolCoinType],
-            arguments: [tx.object(configId)],
+        tx.setSender(sender);
+        const coinIn = coinWithBalance({ type: inType, balance: amountInRaw });
+        const [coinOut] = tx.moveCall({
+            target: `${pkg}::${this.bcModule}::${side === 'buy' ? this.bcBuyFn : this.bcSellFn}`,
+            typeArguments: [quoteCoinType, idolCoinType],
+            arguments: [tx.object(configId), coinIn, tx.pure.u64(0), tx.object(this.clockId)],
         });
+        // The output coin has no `drop`; hand it back to the sender so the PTB is well-formed
+        tx.transferObjects([coinOut], tx.pure.address(sender));
 
-        const sender = this.keypair.getPublicKey().toSuiAddress();
-        const di = await this.client.devInspectTransactionBlock({ sender, transactionBlock: tx });
+        const di: any = await this.client.devInspectTransactionBlock({ sender, transactionBlock: tx });
+        const status = di?.effects?.status?.status ?? di?.effects?.status;
+        if (status === 'failure') {
+            throw this.aborts.toError(String(di?.effects?.status?.error ?? di?.error ?? 'unknown error'), `${side} quote`);
+        }
 
-        const rawReturn = (di as any)?.results?.[0]?.returnValues;
-        if (!rawReturn || !rawReturn.length) {
-            const err = (di as any)?.effects?.status?.error ?? (di as any)?.error;
-            throw new Error(`No return value from get_current_supply. ${err ? 'DevInspect error: ' + err : ''}`);
+        // Coin<T> is BCS { id: UID (32 bytes), balance: u64 }; the trade call is the last moveCall result
+        const tradeResult = di?.results?.[di.results.length - 2]?.returnValues?.[0];
+        if (!tradeResult) throw new Error(`No return value from ${side} simulation`);
+        const amountOutRaw = bcs.u64().parse(Uint8Array.from(tradeResult[0] as number[]).slice(32));
+
+        // The curve charges its fee in the quote coin: on the SUI paid in for a buy, on the SUI
+        // proceeds for a sell. Prefer the fee its trade event reports; fall back to feeRateBps.
+        const tradeEvent = (di?.events ?? []).find((e: any) =>
+            typeof e?.type === 'string' && e.type.startsWith(`${pkg}::${this.bcModule}::`),
+        );
+        const eventFee = tradeEvent?.parsedJson?.fee ?? tradeEvent?.parsedJson?.fee_amount;
+        const feeBps = opts.feeRateBps !== undefined ? BigInt(opts.feeRateBps) : undefined;
+        let feeRaw: bigint | undefined;
+        if (eventFee !== undefined) {
+            feeRaw = BigInt(eventFee);
+        } else if (feeBps !== undefined && side === 'buy') {
+            feeRaw = (amountInRaw * feeBps) / 10_000n;
+        } else if (feeBps !== undefined && feeBps < 10_000n) {
+            // amountOut is the proceeds after the fee was taken off the gross
+            feeRaw = (BigInt(amountOutRaw) * feeBps) / (10_000n - feeBps);
         }
-        return { rawReturn };
+
+        // Effective price in quote base units per idol base unit, compared to the marginal price
+        const [quoteRaw, idolRaw] =
+            side === 'buy' ? [amountInRaw, BigInt(amountOutRaw)] : [BigInt(amountOutRaw), amountInRaw];
+        const marginalRaw = BigInt(marginal.priceRaw);
+        const atMarginal = marginalRaw * idolRaw;
+        const priceImpactPct =
+            atMarginal > 0n
+                ? formatRatio((side === 'buy' ? quoteRaw - atMarginal : atMarginal - quoteRaw) * 100n, atMarginal)
+                : undefined;
+
+        const slippageBps = BigInt(opts.slippageBps ?? 0);
+        const minAmountOutRaw = (BigInt(amountOutRaw) * (10_000n - slippageBps)) / 10_000n;
+
+        return {
+            side,
+            coinType: idolCoinType,
+            quoteCoinType,
+            amountIn: formatUnits(amountInRaw, inDecimals),
+            amountInRaw: amountInRaw.toString(),
+            amountOut: formatUnits(amountOutRaw, outDecimals),
+            amountOutRaw,
+            minAmountOut: formatUnits(minAmountOutRaw, outDecimals),
+            effectivePrice:
+                idolRaw > 0n
+                    ? formatRatio(quoteRaw * 10n ** BigInt(coinDecimals), idolRaw * 10n ** BigInt(quoteDecimals))
+                    : undefined,
+            marginalPrice: marginal.price,
+            fee: feeRaw !== undefined ? formatUnits(feeRaw, quoteDecimals) : undefined,
+            feeSource: eventFee !== undefined ? 'event' : feeRaw !== undefined ? 'feeRateBps' : undefined,
+            priceImpactPct,
+            events: di?.events ?? [],
+        };
     }
 
     // --------- Templates ---------
 
     private getMoveTomlTemplate(moduleName: string): string {
+        assertMoveIdentifier(moduleName, 'moduleName');
         // No explicit [dependencies]; framework deps are auto-added by the CLI for the active env
         return `
 [package]
@@ -431,51 +1477,6 @@ version = "0.0.1"
 
 [addresses]
 ${moduleName} = "0x0"
-`.trim();
-    }
-
-    private getTokenMoveTemplate(
-        moduleName: string,
-        MODULE_NAME_UPPER: string,
-        params: {
-            ticker: string;
-            name: string;
-            description: string;
-            decimals: number;
-            imageUrl: string;
-        },
-    ): string {
-        // OTW must be UPPERCASE(moduleName); init runs on publish and receives the OTW
-        return `
-module ${moduleName}::${moduleName} {
-    use std::option;
-    use sui::coin;
-    use sui::transfer;
-    use sui::url;
-    use sui::tx_context::{Self, TxContext};
-
-    // One-Time Witness type (UPPERCASE module name)
-    struct ${MODULE_NAME_UPPER} has drop {}
-
-    // Called once at publish-time; Sui provides the OTW automatically
-    fun init(witness: ${MODULE_NAME_UPPER}, ctx: &mut TxContext) {
-        let (treasury_cap, metadata) = coin::create_currency<${MODULE_NAME_UPPER}>(
-            witness,
-            ${params.decimals},
-            b"${params.ticker}",
-            b"${params.name}",
-            b"${params.description}",
-            option::some(url::new_unsafe_from_bytes(b"${params.imageUrl}")),
-            ctx
-        );
-
-        // Give deployer the TreasuryCap so they control mint/burn
-        transfer::public_transfer(treasury_cap, tx_context::sender(ctx));
-
-        // Freeze metadata so it's immutable/readable globally (must use the public variant)
-        transfer::public_freeze_object(metadata);
-    }
-}
 `.trim();
     }
 }
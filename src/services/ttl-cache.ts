@@ -0,0 +1,94 @@
+//--- File: services/ttl-cache.ts ---
+
+export interface CacheStats {
+    size: number;
+    hits: number;
+    misses: number;
+    coalesced: number;
+    ttlMs: number;
+}
+
+/**
+ * Small in-process TTL cache with request coalescing: concurrent `get`s for the same key
+ * share one in-flight load. Failed loads are never cached.
+ */
+export class TtlCache<V> {
+    private entries = new Map<string, { value: V; expiresAt: number }>();
+    private inFlight = new Map<string, Promise<V>>();
+    private hits = 0;
+    private misses = 0;
+    private coalesced = 0;
+
+    constructor(private ttlMs: number) {}
+
+    peek(key: string): V | undefined {
+        const entry = this.entries.get(key);
+        if (!entry) return undefined;
+        if (entry.expiresAt <= Date.now()) {
+            this.entries.delete(key);
+            return undefined;
+        }
+        return entry.value;
+    }
+
+    set(key: string, value: V) {
+        if (this.ttlMs <= 0) return;
+        this.entries.set(key, { value, expiresAt: Date.now() + this.ttlMs });
+    }
+
+    get(key: string, load: () => Promise<V>): Promise<V> {
+        const cached = this.peek(key);
+        if (cached !== undefined) {
+            this.hits++;
+            return Promise.resolve(cached);
+        }
+        const running = this.inFlight.get(key);
+        if (running) {
+            this.coalesced++;
+            return running;
+        }
+
+        this.misses++;
+        const p = load().then(
+            (value) => {
+                // Only store if nobody invalidated the key while the load was running
+                if (this.inFlight.get(key) === p) {
+                    this.inFlight.delete(key);
+                    this.set(key, value);
+                }
+                return value;
+            },
+            (error) => {
+                if (this.inFlight.get(key) === p) this.inFlight.delete(key);
+                throw error;
+            },
+        );
+        this.inFlight.set(key, p);
+        return p;
+    }
+
+    /** Drop every key matching `match` (all keys when omitted), including in-flight loads. */
+    invalidate(match: (key: string) => boolean = () => true): number {
+        let dropped = 0;
+        for (const key of [...this.entries.keys()]) {
+            if (match(key)) {
+                this.entries.delete(key);
+                dropped++;
+            }
+        }
+        for (const key of [...this.inFlight.keys()]) {
+            if (match(key)) this.inFlight.delete(key);
+        }
+        return dropped;
+    }
+
+    stats(): CacheStats {
+        return {
+            size: this.entries.size,
+            hits: this.hits,
+            misses: this.misses,
+            coalesced: this.coalesced,
+            ttlMs: this.ttlMs,
+        };
+    }
+}
@@ -0,0 +1,64 @@
+//--- File: services/webhook-notifier.ts ---
+
+import { createHmac } from 'crypto';
+
+export interface WebhookDelivery {
+    ok: boolean;
+    attempts: number;
+    error?: string;
+}
+
+/**
+ * POSTs JSON payloads to caller-supplied URLs. Every request carries
+ *   X-Idol-Timestamp: <unix seconds>
+ *   X-Idol-Signature: sha256=<hex HMAC-SHA256 of "<timestamp>.<body>">
+ * so receivers can verify origin and reject replays; there is no unsigned mode.
+ */
+export class WebhookNotifier {
+    constructor(
+        private secret: string,
+        private maxAttempts = 3,
+        private timeoutMs = 10_000,
+    ) {
+        if (!secret) throw new Error('WebhookNotifier needs a secret (WEBHOOK_SECRET)');
+    }
+
+    sign(timestamp: string, body: string): string {
+        return createHmac('sha256', this.secret).update(`${timestamp}.${body}`).digest('hex');
+    }
+
+    async send(url: string, event: string, payload: unknown): Promise<WebhookDelivery> {
+        const body = JSON.stringify({ event, data: payload });
+        let lastError = '';
+
+        for (let attempt = 1; attempt <= this.maxAttempts; attempt++) {
+            const timestamp = Math.floor(Date.now() / 1000).toString();
+            const headers: Record<string, string> = {
+                'Content-Type': 'application/json',
+                'X-Idol-Event': event,
+                'X-Idol-Timestamp': timestamp,
+                'X-Idol-Signature': `sha256=${this.sign(timestamp, body)}`,
+            };
+
+            try {
+                const res = await fetch(url, {
+                    method: 'POST',
+                    headers,
+                    body,
+                    signal: AbortSignal.timeout(this.timeoutMs),
+                });
+                if (res.ok) return { ok: true, attempts: attempt };
+                lastError = `HTTP ${res.status}`;
+            } catch (e: any) {
+                lastError = e?.message || String(e);
+            }
+
+            console.warn(`[Webhook] Delivery of "${event}" to ${url} failed (attempt ${attempt}): ${lastError}`);
+            if (attempt < this.maxAttempts) {
+                await new Promise((r) => setTimeout(r, 1_000 * 2 ** (attempt - 1)));
+            }
+        }
+
+        return { ok: false, attempts: this.maxAttempts, error: lastError };
+    }
+}
@@ -2,7 +2,12 @@ export const NETWORKS = ['mainnet', 'testnet', 'devnet', 'localnet'] as const;
 export type SuiNetwork = typeof NETWORKS[number];
 
 export interface Env {
-    SUI_SIGNER_SECRET_KEY: string;
+    SUI_SIGNER_SECRET_KEY?: string; // suiprivkey... or base64; required unless a remote signer is configured
+    SUI_SIGNER_SCHEME?: string; // scheme of a bare 32-byte base64 key: ED25519 (default), Secp256k1, Secp256r1
+    // Remote signer (KMS/HSM bridge); takes precedence over SUI_SIGNER_SECRET_KEY
+    SUI_REMOTE_SIGNER_URL?: string;
+    SUI_REMOTE_SIGNER_ADDRESS?: string; // Sui address of the remote key, signatures are verified against it
+    SUI_REMOTE_SIGNER_TOKEN?: string; // sent as a Bearer token
     IAO_CONFIG_ID: string;
     IAO_REGISTRY_ID: string;
     POOLS_CONFIG_ID: string;
@@ -10,14 +15,113 @@ export interface Env {
     CLOCK_ID: string;
     FACTORY_PACKAGE_ID: string; // The ID of your deployed idol_factory package
     PORT: string;
-    SUI_NETWORK: SuiNetwork;
+    SUI_NETWORK: SuiNetwork; // also the network of requests that don't pick one when deployment profiles are used
+    SUI_RPC_URL?: string; // fullnode URL, defaults to the public fullnode of SUI_NETWORK
+    DEPLOYMENT_PROFILES_PATH?: string; // JSON file of per-network DeploymentProfiles; replaces the object IDs above
     // Optional: bonding curve query wiring
     POOLS_PACKAGE_ID?: string; // package that contains bonding_curve::get_marginal_price
     BONDING_CURVE_MODULE?: string; // defaults to "bonding_curve"
     BONDING_CURVE_GLOBAL_CONFIG_ID?: string; // GlobalConfig object passed to get_marginal_price
     COINX_TYPE?: string; // Quote coin type for price, defaults to 0x2::sui::SUI
+    BONDING_CURVE_BUY_FN?: string; // defaults to "buy"
+    BONDING_CURVE_SELL_FN?: string; // defaults to "sell"
     CETUS_GLOBAL_CONFIG_ID?: string;
     CETUS_POOLS_ID?: string;
+    LAUNCH_STORE_PATH?: string; // JSON file backing the launch job store, defaults to ./data/launches.json
+    WEBHOOK_SECRET?: string; // HMAC key used to sign launch completion webhooks; callbackUrl is refused while unset
+    COIN_TEMPLATE_BYTECODE_PATH?: string; // compiled coin template (required, `npm run build:coin-template`), defaults to move/coin_template/bytecode.json
+    READ_CACHE_TTL_MS?: string; // TTL for cached bonding-curve reads, defaults to 2000; 0 disables caching
+    // Gas sponsorship for creator-sent launches (server address pays gas)
+    GAS_SPONSOR_ENABLED?: string; // "true" to enable
+    GAS_SPONSOR_MAX_BUDGET_MIST?: string; // per transaction, defaults to 0.5 SUI
+    GAS_SPONSOR_DAILY_LIMIT_MIST?: string; // all creators per UTC day, defaults to 50 SUI
+    GAS_SPONSOR_CREATOR_DAILY_LIMIT_MIST?: string; // per sender address per UTC day, defaults to 2 SUI; advisory, senders are not authenticated
+    GAS_SPONSOR_RESERVATION_TTL_MS?: string; // how long coins stay locked awaiting a signature, defaults to 10 min
+    GAS_SPEND_LEDGER_PATH?: string; // defaults to ./data/gas-spend.json
+    // Gas coin pool for server-signed transactions
+    GAS_POOL_SIZE?: string; // idle pre-split coins to keep, defaults to 4; 0 disables the pool
+    GAS_POOL_COIN_MIST?: string; // balance of each split coin, defaults to 2 SUI
+    GAS_POOL_MIN_COIN_MIST?: string; // coins below this are merged back into the reserve, defaults to 0.2 SUI
+    GAS_POOL_LEASE_TIMEOUT_MS?: string; // how long a launch waits for a free coin, defaults to 2 min
+    // launch_idol initial liquidity and gas budgeting
+    INITIAL_LIQUIDITY_MIN_MIST?: string; // defaults to 1 SUI
+    INITIAL_LIQUIDITY_MAX_MIST?: string; // defaults to 100 SUI
+    INITIAL_LIQUIDITY_DEFAULT_MIST?: string; // used when the request sets none, defaults to 1 SUI
+    INITIAL_LIQUIDITY_GOAL_BPS?: string; // if set, the default is this share of targetGoalSui instead (clamped to min/max)
+    GAS_BUDGET_MARGIN_BPS?: string; // safety margin on top of the dry-run gas estimate, defaults to 2000 (20%)
+    MOVE_ABORT_CATALOG_PATH?: string; // JSON array of extra abort catalog rows (module, function?, code?, errorCode, status, message)
+    PREVIEW_TREASURY_CAP_ID?: string; // server-owned TreasuryCap of a throwaway coin, stands in for the new one in previews
+    PACKAGE_UPGRADE_POLICY?: string; // "immutable" calls package::make_immutable at publish; default hands out the UpgradeCap
+    ADMIN_API_TOKEN?: string; // Bearer token for ops endpoints (cap transfers); those endpoints are disabled when unset
+    // Chain event indexer
+    INDEXER_ENABLED?: string; // "false" to disable; on by default
+    INDEXER_STORE_PATH?: string; // defaults to ./data/index.json
+    INDEXER_POLL_MS?: string; // delay between polls once caught up, defaults to 5000
+    INDEXER_MAX_TRADES_PER_COIN?: string; // trade history kept per coin (older trades are dropped), defaults to 1000
+    INDEXER_EVENT_MODULES?: string; // comma-separated <package>::<module> event sources; defaults to factory, iao, pools and the bonding curve
+    // Graduation monitor: watches registered IAOs and migrates liquidity to Cetus at targetGoalSui
+    GRADUATION_MONITOR_ENABLED?: string; // "true" to enable (needs GRADUATION_RAISED_FIELD and GRADUATION_MIGRATE_TARGET); off by default
+    GRADUATION_POLL_MS?: string; // defaults to 60000
+    GRADUATION_RAISED_FIELD?: string; // IAO object field (dot path) holding the raised SUI, or get_current_supply[<i>] for the i-th curve value
+    GRADUATION_MIGRATE_TARGET?: string; // package::module::function that migrates a graduated IAO to Cetus
+    GRADUATION_MIGRATE_ARGS?: string; // argument order, from: pool, iaoConfig, iaoRegistry, poolsConfig, poolsRegistry, cetusConfig, cetusPools, clock
+    GRADUATION_MAX_ATTEMPTS?: string; // automatic migration attempts before giving up, defaults to 5
+    GRADUATION_RETRY_DELAY_MS?: string; // delay before the first retry, doubled after each failure, defaults to 60000
+    // Readiness (GET /ready and the startup self-check)
+    READY_MIN_SIGNER_BALANCE_MIST?: string; // defaults to one launch: default initial liquidity plus estimated gas
+    FACTORY_ALLOWLIST_CONFIG_ID?: string; // object passed to factory config::is_allowed, defaults to IAO_CONFIG_ID
+}
+
+// Object IDs of one network's deployment, checked against their expected types at startup
+export const DEPLOYMENT_OBJECT_KEYS = [
+    'IAO_CONFIG_ID', 'IAO_REGISTRY_ID', 'POOLS_CONFIG_ID', 'POOLS_REGISTRY_ID', 'CLOCK_ID', 'FACTORY_PACKAGE_ID',
+    'CETUS_GLOBAL_CONFIG_ID', 'CETUS_POOLS_ID', 'POOLS_PACKAGE_ID', 'BONDING_CURVE_GLOBAL_CONFIG_ID',
+] as const;
+export type DeploymentObjectKey = typeof DEPLOYMENT_OBJECT_KEYS[number];
+
+// One network in DEPLOYMENT_PROFILES_PATH (services/deployment-profiles.ts)
+export interface DeploymentProfile {
+    rpcUrl?: string; // defaults to the network's public fullnode
+    objects: Partial<Record<DeploymentObjectKey, string>>;
+    // Names of environment variables holding the key material, so secrets stay out of the file.
+    // Unset: the network signs with SUI_SIGNER_SECRET_KEY / SUI_REMOTE_SIGNER_* like a flat config.
+    signer?: {
+        secretKeyEnv?: string;
+        scheme?: string;
+        remoteUrl?: string;
+        remoteAddress?: string;
+        remoteTokenEnv?: string;
+    };
+    // Per object: "package", a full type (0x2::clock::Clock) or module::Struct from any address
+    expectedTypes?: Partial<Record<DeploymentObjectKey, string>>;
+    env?: Partial<Env>; // any other setting for this network only (e.g. LAUNCH_STORE_PATH, COINX_TYPE)
+}
+
+// Result of checking one configured object on its network
+export interface DeploymentObjectCheck {
+    key: DeploymentObjectKey;
+    objectId: string;
+    expectedType?: string; // unset: only existence is checked
+    actualType?: string; // "package" for packages
+    ok: boolean;
+    error?: string;
+}
+
+// One readiness check; `warn` is reported but doesn't make the service unready
+export interface ReadinessCheck {
+    name: string;
+    status: 'pass' | 'warn' | 'fail';
+    detail?: string;
+    error?: string;
+    durationMs: number;
+    objects?: DeploymentObjectCheck[]; // the objects check only
+}
+
+export interface ReadinessReport {
+    network: SuiNetwork;
+    ready: boolean; // no check failed
+    checkedAt: string;
+    checks: ReadinessCheck[];
 }
 
 export interface IdolCreateRequest {
@@ -35,6 +139,277 @@ export interface IdolCreateRequest {
     feeRateBps: number;
     launchDate: string;
     launchTime: string;
+    launchTimeZone?: string; // IANA zone launchDate/launchTime are given in, defaults to UTC
     countdownMinutes: number;
+    initialLiquiditySui?: string; // SUI seeded into launch_idol; defaults from the server config
+    coinTemplate?: CoinTemplateId; // kind of coin module to publish, defaults to standard
+
+}
+
+// Coin module variants (services/coin-templates.ts). fixed_supply and capped_mint keep the
+// TreasuryCap out of the deployer's hands, so those launches end at publish without an IAO.
+export const COIN_TEMPLATE_IDS = ['standard', 'fixed_supply', 'capped_mint', 'regulated'] as const;
+export type CoinTemplateId = typeof COIN_TEMPLATE_IDS[number];
+
+// Idol fields frozen on chain as an IdolProfile object when the token module is published
+export interface IdolProfileParams {
+    xHandle: string;
+    character: string;
+    setting: string;
+    idolType: string;
+    targetGoalMist: string; // targetGoalSui in MIST (u64)
+}
+
+// Coin metadata baked into the generated/patched token module
+export interface IdolTokenParams {
+    ticker: string;
+    name: string;
+    description: string;
+    decimals: number;
+    imageUrl: string;
+    profile: IdolProfileParams;
+    template: CoinTemplateId;
+    totalSupply: string; // u64 base units; minted at publish (fixed_supply) or the mint cap (capped_mint)
+}
+
+// Capability object a coin template sent to the deployer at publish (e.g. a DenyCapV2)
+export interface PublishedCapability {
+    name: string;
+    objectId: string;
+    objectType: string;
+}
+
+export interface PublishedIdolToken {
+    packageId: string;
+    treasuryCapId?: string; // unset for capped_mint, whose TreasuryCap is wrapped in the CappedTreasury
+    coinMetadataId: string;
+    moduleName: string;
+    structName: string;
+    coinType: string;
+    profileId?: string; // frozen <package>::<module>::IdolProfile
+    upgradeCapId?: string; // unset when the package was made immutable at publish
+    immutable?: boolean;
+    template?: CoinTemplateId; // unset on tokens published before coin templates: standard
+    capabilities?: PublishedCapability[];
+    digest?: string;
+}
+
+// UpgradeCap or TreasuryCap owned by the server signer
+export interface CustodyCap {
+    kind: 'UpgradeCap' | 'TreasuryCap';
+    objectId: string;
+    objectType: string;
+    packageId: string; // the upgradeable package, or the package defining the coin
+    coinType?: string; // TreasuryCap only
+    totalSupply?: string; // TreasuryCap only, base units
+    packageVersion?: string; // UpgradeCap only
+    upgradePolicy?: string; // UpgradeCap only: compatible, additive or dep_only
+}
+
+// Caps held for one idol coin; coinType is unset for packages the service can't tie to a coin
+export interface CapCustodyGroup {
+    coinType?: string;
+    packageId: string;
+    upgradeCaps: CustodyCap[];
+    treasuryCaps: CustodyCap[];
+}
+
+export interface RegisteredIdolAsset {
+    digest: string;
+    poolId: string;
+    lpCapId?: string;
+    creatorTokensId?: string;
+}
+
+// One coin in a POST /market/snapshot response; `error` is set instead of the values when its calls failed
+export interface MarketSnapshotEntry {
+    coinType: string;
+    price?: string;
+    priceRaw?: string;
+    supply?: string | string[];
+    supplyRaw?: string | string[];
+    coinDecimals?: number;
+    error?: string;
+}
+
+export type TradeSide = 'buy' | 'sell';
+
+// Simulated bonding-curve trade; amounts are decimal strings, *Raw fields are base units
+export interface TradeQuote {
+    side: TradeSide;
+    coinType: string;
+    quoteCoinType: string;
+    amountIn: string;
+    amountInRaw: string;
+    amountOut: string;
+    amountOutRaw: string;
+    minAmountOut: string; // amountOut less the requested slippage tolerance
+    effectivePrice?: string; // quote coins per whole idol coin for this trade
+    marginalPrice: string;
+    fee?: string; // in the quote coin, whichever side of the trade it is on
+    feeSource?: 'event' | 'feeRateBps';
+    priceImpactPct?: string;
+    events: unknown[];
+}
+
+// Launch/trade/graduation events the indexer recognizes, by event struct name
+export type IndexedEventKind = 'launch' | 'buy' | 'sell' | 'graduation';
+
+// An idol coin as seen on chain by the event indexer; amounts are base units
+export interface IndexedIdol {
+    coinType: string;
+    poolId?: string; // IAO object from the launch event
+    creator?: string;
+    launchedAt?: string;
+    launchDigest?: string;
+    trades: number;
+    volumeQuote: string; // quote coin traded through buys and sells
+    lastTradeAt?: string;
+    graduated?: { digest: string; at?: string; cetusPoolId?: string };
+}
+
+export interface IndexedTrade {
+    side: TradeSide;
+    trader: string;
+    quoteAmount?: string;
+    tokenAmount?: string;
+    digest: string;
+    eventSeq: string;
+    timestamp?: string;
+}
+
+// Location and code of a MoveAbort as reported in execution/devInspect status errors
+export interface MoveAbort {
+    address: string;
+    module: string;
+    function?: string;
+    code: number;
+    command?: number; // PTB command that aborted
+}
+
+// A MoveAbort matched against the abort catalog; `errorCode` is what API clients branch on
+export interface DecodedMoveAbort extends MoveAbort {
+    errorCode: string;
+    status: number; // HTTP status the API answers with
+    message: string;
+}
+
+// Gas of a simulated transaction, in MIST; totalMist = computation + storage - rebate
+export interface GasEstimate {
+    computationCost: string;
+    storageCost: string;
+    storageRebate: string;
+    totalMist: string;
+    budgetMist?: string; // budget the real transaction would be built with
+}
+
+// One simulated step of POST /launch-idol/preview; `error` holds the decoded abort when it would fail
+export interface LaunchPreviewStep {
+    ok: boolean;
+    gas?: GasEstimate;
+    objectTypes?: string[]; // types of the objects the step creates
+    error?: string;
+    abort?: DecodedMoveAbort; // set when `error` is a decoded MoveAbort
+    skipped?: string; // why the step was not simulated
+}
+
+export interface LaunchPreview {
+    moduleName: string;
+    structName: string;
+    template: CoinTemplateId;
+    package: { modules: string[]; moduleBytes: number[]; dependencies: string[] };
+    publish: LaunchPreviewStep & { packageId?: string; coinType?: string };
+    register: LaunchPreviewStep & { placeholderCoinType?: string };
+    initialLiquidityMist: string;
+    totalEstimatedMist?: string; // gas budgets of the steps that run + initial liquidity, when all were simulated
+}
+
+// Lifecycle of a persisted launch: queued -> published -> registered, or failed at any step;
+// cancelled only before launch_idol went out (the published package, if any, stays on chain).
+// completed: the coin template opens no IAO, so the launch ends once the package is published.
+export const LAUNCH_STATUSES = ['queued', 'published', 'registered', 'completed', 'failed', 'cancelled'] as const;
+export type LaunchStatus = typeof LAUNCH_STATUSES[number];
+export type LaunchStep = 'publish' | 'register';
+// server: signed by the server signer (local key or remote); wallet: creator signs the bytes we build;
+// sponsored: like wallet, but the server address pays gas
+export type LaunchSignerMode = 'server' | 'wallet' | 'sponsored';
+
+// Transaction bytes built for a creator's wallet
+export interface UnsignedWalletTx {
+    txBytes: string; // base64 BCS TransactionData
+    sponsorSignature?: string; // sponsored: the gas owner's signature, submitted alongside the creator's
+    gasReservationId?: string; // sponsored: GasStation lock on the gas coins
+}
+
+// A built transaction waiting for the creator's wallet signature
+export interface PendingWalletTx extends UnsignedWalletTx {
+    step: LaunchStep;
+    // publish only: names needed to derive the coinType from the result, and the template to read caps for
+    moduleName?: string;
+    structName?: string;
+    template?: CoinTemplateId;
+    builtAt: string;
+}
+
+// One try at migrating an IAO's liquidity to Cetus
+export interface GraduationAttempt {
+    at: string;
+    trigger: 'auto' | 'manual';
+    ok: boolean;
+    digest?: string;
+    error?: string;
+    abort?: DecodedMoveAbort;
+}
+
+// Progress of a registered launch toward targetGoalSui, and its migration to Cetus
+export interface GraduationState {
+    status: 'tracking' | 'migrating' | 'migrated' | 'failed'; // failed: automatic attempts exhausted
+    raisedMist?: string;
+    targetMist: string;
+    progressPct?: string; // raised / target, two decimals, may exceed 100
+    checkedAt?: string;
+    lastCheckError?: string;
+    attempts: GraduationAttempt[];
+    nextAttemptAt?: string; // earliest automatic retry after a failed attempt
+    digest?: string; // the migration that landed
+    cetusPoolId?: string;
+    migratedAt?: string;
+}
+
+// Server publish that was signed and submitted but whose result isn't stored yet
+export interface SubmittedPublish {
+    digest: string;
+    moduleName: string;
+    structName: string;
+    template: CoinTemplateId;
+    submittedAt: string;
+}
 
+export interface LaunchJob {
+    id: string;
+    idolId: number;
+    // Dedupe key: the Idempotency-Key header when given, otherwise derived from idolId
+    idempotencyKey: string;
+    createParams: IdolCreateRequest;
+    signerMode?: LaunchSignerMode; // unset on jobs created before wallet mode: server
+    sender?: string; // wallet mode: the creator address that signs and owns the results
+    pendingTx?: PendingWalletTx;
+    status: LaunchStatus;
+    // Scheduled launches: launch_idol waits until this instant (ISO); publishing happens right away
+    scheduledAt?: string;
+    // Step currently executing (unset while idle)
+    currentStep?: LaunchStep;
+    attempts: number;
+    // Filled in as each step lands so a resumed job never repeats a completed step
+    publish?: PublishedIdolToken;
+    // Set just before the publish executes; a resumed job rebuilds `publish` from it instead of publishing again
+    publishTx?: SubmittedPublish;
+    register?: RegisteredIdolAsset;
+    error?: { step: LaunchStep; message: string; abort?: DecodedMoveAbort };
+    graduation?: GraduationState; // registered launches only, filled in by the graduation monitor
+    // Optional completion callback; delivery outcome is recorded on the job
+    callbackUrl?: string;
+    webhook?: { attempts: number; deliveredAt?: string; lastError?: string };
+    createdAt: string;
+    updatedAt: string;
 }
@@ -0,0 +1,181 @@
+//--- File: validation.ts ---
+
+import { COIN_TEMPLATE_IDS, CoinTemplateId, IdolCreateRequest } from './types';
+import { isAscii, isWellFormedUnicode } from './services/move-literals';
+import { formatUnits, parseUnits } from './services/move-values';
+import { isValidTimeZone } from './services/launch-schedule';
+
+export interface FieldError {
+    field: string;
+    message: string;
+}
+
+const U8_MAX = 255n;
+const U16_MAX = 65_535n;
+const U64_MAX = 18_446_744_073_709_551_615n;
+const MAX_FEE_RATE_BPS = 10_000;
+const IDOL_TYPES: readonly IdolCreateRequest['idolType'][] = ['rogue', 'allied'];
+
+// Parse an integer given as a JS number or a base-10 string; undefined if it isn't one
+function toBigInt(v: unknown): bigint | undefined {
+    if (typeof v === 'number' && Number.isSafeInteger(v)) return BigInt(v);
+    if (typeof v === 'string' && /^\d+$/.test(v)) return BigInt(v);
+    return undefined;
+}
+
+function checkUint(errors: FieldError[], field: string, v: unknown, max: bigint, label: string): bigint | undefined {
+    const n = toBigInt(v);
+    if (n === undefined || n < 0n) {
+        errors.push({ field, message: `must be a non-negative integer (${label})` });
+        return undefined;
+    }
+    if (n > max) {
+        errors.push({ field, message: `must be at most ${max} (${label})` });
+        return undefined;
+    }
+    return n;
+}
+
+function checkString(
+    errors: FieldError[],
+    field: string,
+    v: unknown,
+    { min = 1, max, pattern, hint }: { min?: number; max: number; pattern?: RegExp; hint?: string },
+) {
+    if (typeof v !== 'string') {
+        errors.push({ field, message: 'must be a string' });
+        return;
+    }
+    if (v.trim().length < min) {
+        errors.push({ field, message: min === 1 ? 'must not be empty' : `must be at least ${min} characters` });
+        return;
+    }
+    if (v.length > max) {
+        errors.push({ field, message: `must be at most ${max} characters` });
+        return;
+    }
+    if (pattern && !pattern.test(v)) {
+        errors.push({ field, message: hint ?? `must match ${pattern}` });
+    }
+}
+
+/** YYYY-MM-DD that names a real calendar day. */
+export function isValidLaunchDate(v: string): boolean {
+    const m = /^(\d{4})-(\d{2})-(\d{2})$/.exec(v);
+    if (!m) return false;
+    const [y, mo, d] = [Number(m[1]), Number(m[2]), Number(m[3])];
+    const date = new Date(Date.UTC(y, mo - 1, d));
+    return date.getUTCFullYear() === y && date.getUTCMonth() === mo - 1 && date.getUTCDate() === d;
+}
+
+/** 24h HH:MM or HH:MM:SS. */
+export function isValidLaunchTime(v: string): boolean {
+    return /^([01]\d|2[0-3]):[0-5]\d(:[0-5]\d)?$/.test(v);
+}
+
+/**
+ * Field-level validation of an IdolCreateRequest against the ranges the Move side enforces
+ * (u8 decimals, u64 supply, u16 fee bps) and the formats the coin template expects.
+ * `initialLiquidityMist` bounds the optional initialLiquiditySui when given.
+ * Returns an empty list when the request is valid.
+ */
+export function validateIdolCreateRequest(
+    input: unknown,
+    { initialLiquidityMist }: { initialLiquidityMist?: { min: bigint; max: bigint } } = {},
+): FieldError[] {
+    const errors: FieldError[] = [];
+    if (!input || typeof input !== 'object' || Array.isArray(input)) {
+        return [{ field: 'createParams', message: 'must be an object' }];
+    }
+    const p = input as Record<string, unknown>;
+
+    checkString(errors, 'xHandle', p.xHandle, {
+        max: 16,
+        pattern: /^@?[A-Za-z0-9_]{1,15}$/,
+        hint: 'must be an X handle (letters, digits, underscore; max 15, optional leading @)',
+    });
+    checkString(errors, 'name', p.name, { max: 64 });
+    checkString(errors, 'character', p.character, { max: 2_000 });
+    checkString(errors, 'setting', p.setting, { max: 2_000 });
+    checkString(errors, 'description', p.description, { min: 0, max: 1_000 });
+    checkString(errors, 'ticker', p.ticker, {
+        max: 10,
+        pattern: /^[A-Za-z][A-Za-z0-9]*$/,
+        hint: 'must start with a letter and contain only ASCII letters and digits',
+    });
+
+    if (!IDOL_TYPES.includes(p.idolType as IdolCreateRequest['idolType'])) {
+        errors.push({ field: 'idolType', message: `must be one of: ${IDOL_TYPES.join(', ')}` });
+    }
+    if (p.coinTemplate !== undefined && !COIN_TEMPLATE_IDS.includes(p.coinTemplate as CoinTemplateId)) {
+        errors.push({ field: 'coinTemplate', message: `must be one of: ${COIN_TEMPLATE_IDS.join(', ')}` });
+    }
+
+    if (p.imageUrl !== undefined && p.imageUrl !== '') {
+        let ok = false;
+        if (typeof p.imageUrl === 'string' && p.imageUrl.length <= 2_048) {
+            try {
+                // The coin template stores the icon URL as std::ascii, so non-ASCII must be percent-encoded
+                ok = isAscii(p.imageUrl) && ['http:', 'https:'].includes(new URL(p.imageUrl).protocol);
+            } catch {
+                ok = false;
+            }
+        }
+        if (!ok) {
+            errors.push({ field: 'imageUrl', message: 'must be an absolute ASCII http(s) URL (max 2048 characters)' });
+        }
+    }
+
+    for (const field of ['name', 'description', 'character', 'setting'] as const) {
+        const v = p[field];
+        if (typeof v === 'string' && !isWellFormedUnicode(v)) {
+            errors.push({ field, message: 'must be well-formed Unicode text' });
+        }
+    }
+
+    checkUint(errors, 'decimals', p.decimals, U8_MAX, 'u8');
+    const supply = checkUint(errors, 'totalSupply', p.totalSupply, U64_MAX, 'u64');
+    if (supply === 0n) errors.push({ field: 'totalSupply', message: 'must be greater than 0' });
+
+    const fee = checkUint(errors, 'feeRateBps', p.feeRateBps, U16_MAX, 'u16');
+    if (fee !== undefined && fee > BigInt(MAX_FEE_RATE_BPS)) {
+        errors.push({ field: 'feeRateBps', message: `must be at most ${MAX_FEE_RATE_BPS} (100%)` });
+    }
+
+    if (typeof p.targetGoalSui !== 'string' || !/^\d+(\.\d{1,9})?$/.test(p.targetGoalSui)) {
+        errors.push({ field: 'targetGoalSui', message: 'must be a decimal string with at most 9 fractional digits' });
+    } else if (!/[1-9]/.test(p.targetGoalSui)) {
+        errors.push({ field: 'targetGoalSui', message: 'must be greater than 0' });
+    } else if (parseUnits(p.targetGoalSui, 9) > U64_MAX) {
+        // Published as the IdolProfile's target_goal_mist: u64
+        errors.push({ field: 'targetGoalSui', message: `must be at most ${formatUnits(U64_MAX, 9)} SUI (u64 MIST)` });
+    }
+
+    if (p.initialLiquiditySui !== undefined) {
+        if (typeof p.initialLiquiditySui !== 'string' || !/^\d+(\.\d{1,9})?$/.test(p.initialLiquiditySui)) {
+            errors.push({ field: 'initialLiquiditySui', message: 'must be a decimal string with at most 9 fractional digits' });
+        } else if (initialLiquidityMist) {
+            const mist = parseUnits(p.initialLiquiditySui, 9);
+            const { min, max } = initialLiquidityMist;
+            if (mist < min || mist > max) {
+                errors.push({
+                    field: 'initialLiquiditySui',
+                    message: `must be between ${formatUnits(min, 9)} and ${formatUnits(max, 9)} SUI`,
+                });
+            }
+        }
+    }
+
+    if (typeof p.launchDate !== 'string' || !isValidLaunchDate(p.launchDate)) {
+        errors.push({ field: 'launchDate', message: 'must be a calendar date in YYYY-MM-DD format' });
+    }
+    if (typeof p.launchTime !== 'string' || !isValidLaunchTime(p.launchTime)) {
+        errors.push({ field: 'launchTime', message: 'must be a 24h time in HH:MM or HH:MM:SS format' });
+    }
+    if (p.launchTimeZone !== undefined && (typeof p.launchTimeZone !== 'string' || !isValidTimeZone(p.launchTimeZone))) {
+        errors.push({ field: 'launchTimeZone', message: 'must be an IANA time zone name such as "UTC" or "Asia/Tokyo"' });
+    }
+    checkUint(errors, 'countdownMinutes', p.countdownMinutes, BigInt(Number.MAX_SAFE_INTEGER), 'minutes');
+
+    return errors.map((e) => ({ ...e, field: `createParams.${e.field}` }));
+}
@@ -0,0 +1,110 @@
+//--- File: test/coin-bytecode-template.test.ts ---
+
+import * as template from '@mysten/move-bytecode-template';
+import { bcs } from '@mysten/sui/bcs';
+import { fromBase64 } from '@mysten/sui/utils';
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { after, before, describe, it } from 'node:test';
+import { CoinBytecodeTemplate } from '../src/services/coin-bytecode-template';
+import { PLACEHOLDERS, tokenParams, vectorU8, writeCoinTemplateFixture } from './helpers';
+
+const HOSTILE = ['say "hi"', 'C:\\path\\', '} module evil {', 'two\nlines\r\n', 'アイドル ✨ café'];
+
+describe('CoinBytecodeTemplate.build', () => {
+    let dir: string;
+    let coinTemplate: CoinBytecodeTemplate;
+
+    before(() => {
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), 'coin-template-'));
+        coinTemplate = CoinBytecodeTemplate.load(writeCoinTemplateFixture(dir))!;
+    });
+
+    after(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+    const build = (params = tokenParams()) => {
+        const { modules } = coinTemplate.build('idol', 'IDOL', params);
+        return template.deserialize(fromBase64(modules[0]));
+    };
+    // Everything but the constant values
+    const structure = (module: any) => ({
+        ...module,
+        constant_pool: module.constant_pool.map((c: any) => c.type_),
+    });
+
+    it('renames the module and OTW', () => {
+        const module = build();
+        assert.deepEqual([...module.identifiers].sort(), ['IDOL', 'dummy_field', 'idol']);
+    });
+
+    it('only rewrites constant values, whatever the metadata', () => {
+        const baseline = build();
+        for (const value of HOSTILE) {
+            const profile = { ...tokenParams().profile, xHandle: value, character: value, setting: value, idolType: value };
+            const module = build(tokenParams({ name: value, description: value, profile }));
+            assert.deepEqual(structure(module), structure(baseline));
+
+            const constants = module.constant_pool.map((c: any) => c.data);
+            assert.deepEqual(constants.slice(2, 4), [vectorU8(value), vectorU8(value)]);
+            assert.deepEqual(constants.slice(5, 9), [vectorU8(value), vectorU8(value), vectorU8(value), vectorU8(value)]);
+        }
+    });
+
+    it('patches decimals, ticker, icon URL and target goal', () => {
+        const profile = { ...tokenParams().profile, targetGoalMist: '42' };
+        const module = build(tokenParams({ decimals: 6, ticker: '"}\\', profile }));
+        const constants = module.constant_pool.map((c: any) => c.data);
+        assert.deepEqual(constants[0], [6]);
+        assert.deepEqual(constants[1], vectorU8('"}\\'));
+        assert.deepEqual(constants[4], vectorU8('https://example.com/idol.png'));
+        assert.deepEqual(constants[9], [...bcs.u64().serialize(42).toBytes()]);
+    });
+
+    it('rejects lone surrogates, non-ASCII tickers and placeholder values', () => {
+        assert.throws(() => build(tokenParams({ name: 'a\uD800' })), /unpaired UTF-16 surrogate/);
+        assert.throws(() => build(tokenParams({ ticker: 'café' })), /only ASCII/);
+        assert.throws(() => build(tokenParams({ imageUrl: 'https://x/\u00e9' })), /only ASCII/);
+        assert.throws(() => build(tokenParams({ description: 'Template Coin' })), /placeholder/);
+        assert.throws(() => build(tokenParams({ decimals: 256 })), /u8/);
+    });
+});
+
+const COMPILED_TEMPLATE = path.join(__dirname, '..', 'move', 'coin_template', 'bytecode.json');
+
+describe('the compiled move/coin_template', {
+    skip: !fs.existsSync(COMPILED_TEMPLATE) && 'bytecode.json is missing: run npm run build:coin-template',
+}, () => {
+    const compiled = () => JSON.parse(fs.readFileSync(COMPILED_TEMPLATE, 'utf-8')) as { modules: string[]; dependencies: string[] };
+
+    it('patches every identifier and placeholder constant', () => {
+        const original = template.deserialize(fromBase64(compiled().modules[0]));
+        const value = '"} \\ ✨\n';
+        const profile = { ...tokenParams().profile, xHandle: value, character: value, setting: value, idolType: value, targetGoalMist: '42' };
+        const params = tokenParams({ decimals: 6, ticker: '"}\\', name: value, description: value, profile });
+        const built = CoinBytecodeTemplate.load(COMPILED_TEMPLATE)!.build('idol', 'IDOL', params);
+        const module = template.deserialize(fromBase64(built.modules[0]));
+
+        assert.deepEqual(built.dependencies, compiled().dependencies);
+        assert.ok(module.identifiers.includes('idol') && module.identifiers.includes('IDOL'));
+        assert.ok(!module.identifiers.includes('template') && !module.identifiers.includes('TEMPLATE'));
+
+        const constants = module.constant_pool.map((c: any) => JSON.stringify(c.data));
+        for (const placeholder of PLACEHOLDERS) assert.ok(!constants.includes(JSON.stringify(vectorU8(placeholder))), placeholder);
+        for (const expected of [vectorU8('"}\\'), vectorU8(value), vectorU8('https://example.com/idol.png'), [6]]) {
+            assert.ok(constants.includes(JSON.stringify(expected)), JSON.stringify(expected));
+        }
+        assert.ok(constants.includes(JSON.stringify([...bcs.u64().serialize(42).toBytes()])));
+
+        // Code, struct fields and constant types are untouched (update_identifiers re-sorts the identifier table)
+        const fields = (m: any) =>
+            m.struct_defs.map((d: any) => d.field_information.Declared?.map((f: any) => [m.identifiers[f.name], f.signature]));
+        assert.deepEqual(module.function_defs, original.function_defs);
+        assert.deepEqual(fields(module), fields(original));
+        assert.deepEqual(
+            module.constant_pool.map((c: any) => c.type_),
+            original.constant_pool.map((c: any) => c.type_),
+        );
+    });
+});
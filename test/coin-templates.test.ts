@@ -0,0 +1,79 @@
+//--- File: test/coin-templates.test.ts ---
+
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { COIN_TEMPLATE_IDS } from '../src/types';
+import { renderTokenModule } from '../src/services/coin-templates';
+import { moveBytesLiteral } from '../src/services/move-literals';
+import { tokenParams } from './helpers';
+
+// Inputs that would close a b"..." literal, the module body or the line if spliced in as text
+const HOSTILE = [
+    'say "hi" "',
+    'C:\\path\\ \\" \\x41',
+    '} } module evil::evil { fun init() {} }',
+    'line one\nline two\r\n// comment',
+    'アイドル ✨ café',
+    '"; }\n\\',
+];
+
+// Every user value sits inside an x"..." literal, so blanking them must leave identical source
+const skeleton = (source: string) => source.replace(/x"[0-9a-f]*"/g, 'x""');
+
+const hexLiterals = (source: string) => [...source.matchAll(/x"([0-9a-f]*)"/g)].map((m) => m[1]);
+
+describe('moveBytesLiteral', () => {
+    it('encodes any well-formed input as hex only', () => {
+        for (const value of HOSTILE) {
+            const literal = moveBytesLiteral(value, 'name');
+            assert.match(literal, /^x"[0-9a-f]*"$/);
+            assert.equal(Buffer.from(literal.slice(2, -1), 'hex').toString('utf-8'), value);
+        }
+    });
+
+    it('rejects lone surrogates', () => {
+        for (const value of ['\uD800', 'a\uDC00b', 'end\uDBFF']) {
+            assert.throws(() => moveBytesLiteral(value, 'name'), /unpaired UTF-16 surrogate/);
+        }
+        assert.doesNotThrow(() => moveBytesLiteral('\uD83D\uDE00', 'name'));
+    });
+
+    it('rejects non-ASCII where the chain decodes std::ascii', () => {
+        assert.throws(() => moveBytesLiteral('café', 'ticker', { ascii: true }), /only ASCII/);
+        assert.equal(moveBytesLiteral('"}\\\n', 'ticker', { ascii: true }), 'x"227d5c0a"');
+    });
+});
+
+describe('renderTokenModule', () => {
+    for (const template of COIN_TEMPLATE_IDS) {
+        it(`keeps the ${template} module structure whatever the metadata`, () => {
+            const baseline = renderTokenModule('idol', 'IDOL', tokenParams({ template }));
+            for (const value of HOSTILE) {
+                const params = tokenParams({
+                    template,
+                    name: value,
+                    description: value,
+                    profile: { ...tokenParams().profile, xHandle: value, character: value, setting: value, idolType: value },
+                });
+                const source = renderTokenModule('idol', 'IDOL', params);
+                assert.equal(skeleton(source), skeleton(baseline));
+
+                const expected = Buffer.from(value, 'utf-8').toString('hex');
+                assert.ok(hexLiterals(source).filter((hex) => hex === expected).length >= 5);
+            }
+        });
+    }
+
+    it('rejects lone surrogates and non-ASCII tickers', () => {
+        assert.throws(() => renderTokenModule('idol', 'IDOL', tokenParams({ description: 'x\uD800' })), /surrogate/);
+        assert.throws(() => renderTokenModule('idol', 'IDOL', tokenParams({ ticker: 'アイ' })), /only ASCII/);
+    });
+
+    it('rejects identifiers and numbers that are not Move tokens', () => {
+        assert.throws(() => renderTokenModule('idol {', 'IDOL', tokenParams()), /valid Move identifier/);
+        assert.throws(() => renderTokenModule('idol', 'IDOL', tokenParams({ decimals: 9.5 })), /u8/);
+        assert.throws(() => renderTokenModule('idol', 'IDOL', tokenParams({ totalSupply: '1; abort 0' })), /u64/);
+        const profile = { ...tokenParams().profile, targetGoalMist: '1 }' };
+        assert.throws(() => renderTokenModule('idol', 'IDOL', tokenParams({ profile })), /u64/);
+    });
+});
@@ -0,0 +1,83 @@
+//--- File: test/gas-station.test.ts ---
+
+import { SuiClient } from '@mysten/sui/client';
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import { GasStation, GasStationLimits } from '../src/services/gas-station';
+
+const id = (n: number) => `0x${n.toString(16).padStart(64, '0')}`;
+const SPONSOR = id(0x50);
+const ALICE = id(0xa1);
+const BOB = id(0xb0);
+
+const LIMITS: GasStationLimits = {
+    maxBudgetMist: 100n,
+    dailyLimitMist: 450n,
+    creatorDailyLimitMist: 250n,
+    reservationTtlMs: 60_000,
+};
+
+// Fullnode holding plenty of sponsor coins, each covering one max budget
+const client = {
+    getCoins: async () => ({
+        data: Array.from({ length: 10 }, (_, i) => ({ coinObjectId: id(0x100 + i), version: '1', digest: 'digest', balance: '100' })),
+        hasNextPage: false,
+        nextCursor: null,
+    }),
+} as unknown as SuiClient;
+
+describe('GasStation limits', () => {
+    let dir: string;
+    let ledgerPath: string;
+    const station = () => new GasStation(client, SPONSOR, LIMITS, ledgerPath);
+
+    beforeEach(() => {
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), 'gas-station-'));
+        ledgerPath = path.join(dir, 'gas-spend.json');
+    });
+
+    afterEach(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+    it('caps pending reservations per creator without affecting other creators', async () => {
+        const gas = station();
+        const first = await gas.reserve(ALICE);
+        await gas.reserve(ALICE);
+        await assert.rejects(gas.reserve(ALICE), /limit of 250 MIST reached for 0x0+a1/);
+        await gas.reserve(BOB);
+
+        gas.release(first.id);
+        await gas.reserve(ALICE);
+        assert.equal(gas.usage(ALICE).creatorMist, '200');
+    });
+
+    it('counts settled spend against the creator across restarts', async () => {
+        const gas = station();
+        for (let i = 0; i < 2; i++) {
+            const { id } = await gas.reserve(ALICE);
+            gas.settle(id, 100n);
+        }
+
+        const restarted = station();
+        assert.equal(restarted.usage(ALICE).creatorMist, '200');
+        await assert.rejects(restarted.reserve(ALICE), /reached for 0x0+a1/);
+    });
+
+    it('narrows the reservation to the confirmed budget', async () => {
+        const gas = station();
+        const { id } = await gas.reserve(ALICE);
+        gas.confirmBudget(id, 40n);
+        await gas.reserve(ALICE);
+        await gas.reserve(ALICE); // 40 + 100 + 100 fits under 250
+        assert.throws(() => gas.confirmBudget(id, 101n), /exceeds the sponsor maximum/);
+    });
+
+    it('enforces the daily total however many sender addresses are used', async () => {
+        const gas = station();
+        for (let i = 0; i < 4; i++) await gas.reserve(id(0xc00 + i));
+        await assert.rejects(gas.reserve(id(0xd00)), /Daily gas sponsorship limit of 450 MIST reached$/);
+        assert.equal(gas.usage().totalMist, '400');
+    });
+});
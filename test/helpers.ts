@@ -0,0 +1,78 @@
+//--- File: test/helpers.ts ---
+
+import * as template from '@mysten/move-bytecode-template';
+import { bcs } from '@mysten/sui/bcs';
+import { toBase64 } from '@mysten/sui/utils';
+import fs from 'node:fs';
+import path from 'node:path';
+import { IdolTokenParams } from '../src/types';
+
+// Benign coin parameters; tests override the fields they exercise
+export function tokenParams(overrides: Partial<IdolTokenParams> = {}): IdolTokenParams {
+    return {
+        ticker: 'IDOL',
+        name: 'Idol',
+        description: 'An idol',
+        decimals: 9,
+        imageUrl: 'https://example.com/idol.png',
+        profile: {
+            xHandle: '@idol',
+            character: 'Singer',
+            setting: 'Tokyo',
+            idolType: 'vtuber',
+            targetGoalMist: '1000000000000',
+        },
+        template: 'standard',
+        totalSupply: '1000000000000000000',
+        ...overrides,
+    };
+}
+
+export const vectorU8 = (value: string) => [...bcs.vector(bcs.u8()).serialize(Buffer.from(value, 'utf-8')).toBytes()];
+
+// Placeholders of move/coin_template/sources/template.move, in constant pool order
+export const PLACEHOLDERS = [
+    'TMPL', 'Template Coin', 'Template Coin Description', 'https://template.invalid/icon.png',
+    '@template_handle', 'Template Character', 'Template Setting', 'template_type',
+];
+
+/**
+ * Stand-in for the compiled coin template (no Sui CLI here): the same identifiers and
+ * constant pool, around a single OTW struct.
+ */
+export function fixtureModule(): Uint8Array {
+    return template.serialize({
+        version: 6,
+        self_module_handle_idx: 0,
+        module_handles: [{ address: 0, name: 1 }],
+        datatype_handles: [{ module: 0, name: 0, abilities: 2, type_parameters: [] }],
+        function_handles: [],
+        field_handles: [],
+        friend_decls: [],
+        struct_def_instantiations: [],
+        function_instantiations: [],
+        field_instantiations: [],
+        signatures: [],
+        identifiers: ['TEMPLATE', 'template', 'dummy_field'],
+        address_identifiers: ['0'.repeat(64)],
+        constant_pool: [
+            { type_: 'U8', data: [9] },
+            ...PLACEHOLDERS.map((value) => ({ type_: { Vector: 'U8' }, data: vectorU8(value) })),
+            { type_: 'U64', data: [...bcs.u64().serialize('987654321987654321').toBytes()] },
+        ],
+        metadata: [],
+        struct_defs: [{ struct_handle: 0, field_information: { Declared: [{ name: 2, signature: 'Bool' }] } }],
+        function_defs: [],
+        enum_defs: [],
+        enum_def_instantiations: [],
+        variant_handles: [],
+        variant_instantiation_handles: [],
+    });
+}
+
+/** Write the stand-in template as `<dir>/bytecode.json` (the `sui move build` output format); returns its path. */
+export function writeCoinTemplateFixture(dir: string): string {
+    const file = path.join(dir, 'bytecode.json');
+    fs.writeFileSync(file, JSON.stringify({ modules: [toBase64(fixtureModule())], dependencies: ['0x1', '0x2'] }));
+    return file;
+}
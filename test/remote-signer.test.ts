@@ -0,0 +1,108 @@
+//--- File: test/remote-signer.test.ts ---
+
+import { Ed25519Keypair } from '@mysten/sui/keypairs/ed25519';
+import { fromBase64 } from '@mysten/sui/utils';
+import { verifyTransactionSignature } from '@mysten/sui/verify';
+import assert from 'node:assert/strict';
+import http from 'node:http';
+import { AddressInfo } from 'node:net';
+import { after, before, beforeEach, describe, it } from 'node:test';
+import { RemoteSigner } from '../src/services/signers';
+
+interface SignRequest {
+    authorization?: string;
+    body: { address?: string; txBytes?: string };
+}
+
+// Any bytes do: the signature covers the intent message, not a parsed transaction
+const TX_BYTES = Uint8Array.from([0, 1, 2, 3, 250, 251, 252, 253]);
+
+describe('RemoteSigner', () => {
+    const key = Ed25519Keypair.generate();
+    const address = key.getPublicKey().toSuiAddress();
+    let server: http.Server;
+    let url: string;
+    let requests: SignRequest[];
+    // What the stand-in answers; defaults to a correct signature of the posted bytes
+    let respond: (request: SignRequest, res: http.ServerResponse) => void | Promise<void>;
+
+    const json = (res: http.ServerResponse, status: number, body: unknown) => {
+        res.writeHead(status, { 'Content-Type': 'application/json' }).end(JSON.stringify(body));
+    };
+    const signWith = async (keypair: Ed25519Keypair, txBytes: Uint8Array) =>
+        (await keypair.signTransaction(txBytes)).signature;
+
+    before(async () => {
+        server = http.createServer((req, res) => {
+            let raw = '';
+            req.on('data', (chunk) => (raw += chunk));
+            req.on('end', () => {
+                const request = { authorization: req.headers.authorization, body: JSON.parse(raw || '{}') };
+                requests.push(request);
+                void respond(request, res);
+            });
+        });
+        await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+        url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/sign`;
+    });
+
+    after(() => {
+        server.closeAllConnections();
+        server.close();
+    });
+
+    beforeEach(() => {
+        requests = [];
+        respond = async ({ body }, res) => json(res, 200, { signature: await signWith(key, fromBase64(body.txBytes!)) });
+    });
+
+    it('posts the address and bytes with the token and returns a verified signature', async () => {
+        const signer = new RemoteSigner(url, address, 'secret-token');
+        const { bytes, signature } = await signer.signTransaction(TX_BYTES);
+
+        assert.equal(requests.length, 1);
+        assert.equal(requests[0].authorization, 'Bearer secret-token');
+        assert.deepEqual(requests[0].body, { address, txBytes: bytes });
+        assert.deepEqual(fromBase64(bytes), TX_BYTES);
+        const publicKey = await verifyTransactionSignature(TX_BYTES, signature, { address });
+        assert.equal(publicKey.toSuiAddress(), address);
+    });
+
+    it('sends no Authorization header without a token', async () => {
+        await new RemoteSigner(url, address).signTransaction(TX_BYTES);
+        assert.equal(requests[0].authorization, undefined);
+    });
+
+    it('rejects HTTP errors', async () => {
+        respond = (_, res) => json(res, 403, { error: 'forbidden' });
+        await assert.rejects(new RemoteSigner(url, address).signTransaction(TX_BYTES), /HTTP 403: .*forbidden/);
+    });
+
+    it('rejects responses without a signature', async () => {
+        respond = (_, res) => json(res, 200, { sig: 'nope' });
+        await assert.rejects(new RemoteSigner(url, address).signTransaction(TX_BYTES), /missing a signature/);
+    });
+
+    it('rejects a body that is not JSON', async () => {
+        respond = (_, res) => {
+            res.writeHead(200, { 'Content-Type': 'text/plain' }).end('signed!');
+        };
+        await assert.rejects(new RemoteSigner(url, address).signTransaction(TX_BYTES));
+    });
+
+    it('rejects a signature from a key other than the configured address', async () => {
+        const other = Ed25519Keypair.generate();
+        respond = async ({ body }, res) => json(res, 200, { signature: await signWith(other, fromBase64(body.txBytes!)) });
+        await assert.rejects(new RemoteSigner(url, address).signTransaction(TX_BYTES), /does not verify for/);
+    });
+
+    it('rejects a signature over different bytes', async () => {
+        respond = async (_, res) => json(res, 200, { signature: await signWith(key, Uint8Array.from([9, 9, 9])) });
+        await assert.rejects(new RemoteSigner(url, address).signTransaction(TX_BYTES), /does not verify for/);
+    });
+
+    it('gives up after the timeout', async () => {
+        respond = () => undefined; // never answers
+        await assert.rejects(new RemoteSigner(url, address, undefined, 100).signTransaction(TX_BYTES), /timeout|abort/i);
+    });
+});
@@ -0,0 +1,88 @@
+//--- File: test/sui-blockchain.test.ts ---
+
+import { bcs } from '@mysten/sui/bcs';
+import { Ed25519Keypair } from '@mysten/sui/keypairs/ed25519';
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { after, before, describe, it } from 'node:test';
+import { KeypairSigner } from '../src/services/signers';
+import { SuiBlockchainService } from '../src/services/sui-blockchain';
+import { Env } from '../src/types';
+import { writeCoinTemplateFixture } from './helpers';
+
+const id = (n: number) => `0x${n.toString(16).padStart(64, '0')}`;
+const POOLS_PACKAGE_ID = id(0xb0);
+const IDOL = `${id(0xc0)}::idol::IDOL`;
+
+// Coin<T> as the curve returns it: UID (32 bytes) then the u64 balance
+const coinBytes = (balance: bigint) => [...new Uint8Array(32), ...bcs.u64().serialize(balance).toBytes()];
+
+describe('SuiBlockchainService.quoteTrade', () => {
+    let dir: string;
+    let sui: SuiBlockchainService;
+
+    before(() => {
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), 'sui-service-'));
+        const env = {
+            SUI_NETWORK: 'localnet',
+            IAO_CONFIG_ID: id(1),
+            IAO_REGISTRY_ID: id(2),
+            POOLS_CONFIG_ID: id(3),
+            POOLS_REGISTRY_ID: id(4),
+            CLOCK_ID: id(6),
+            FACTORY_PACKAGE_ID: id(0xa0),
+            CETUS_GLOBAL_CONFIG_ID: id(7),
+            CETUS_POOLS_ID: id(8),
+            POOLS_PACKAGE_ID,
+            GAS_POOL_SIZE: '0',
+            COIN_TEMPLATE_BYTECODE_PATH: writeCoinTemplateFixture(dir),
+        } as Env;
+        sui = new SuiBlockchainService(env, new KeypairSigner(Ed25519Keypair.generate()));
+        // An idol coin with 6 decimals against SUI's 9, at 0.001 SUI (1_000 MIST) per base unit
+        Object.assign(sui, {
+            getCoinDecimals: async (coinType: string) => (coinType === IDOL ? 6 : 9),
+            getMarginalPriceForIdol: async () => ({ price: '1', priceRaw: '1000' }),
+        });
+    });
+
+    after(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+    // Fullnode that returns `amountOut` from the trade call, with the curve's event when `eventFee` is set
+    const simulate = (amountOut: bigint, eventFee?: bigint) => {
+        const events = eventFee === undefined
+            ? []
+            : [{ type: `${POOLS_PACKAGE_ID}::bonding_curve::TradeEvent`, parsedJson: { fee: eventFee.toString() } }];
+        (sui as any).client = {
+            devInspectTransactionBlock: async () => ({
+                effects: { status: { status: 'success' } },
+                results: [{ returnValues: [[coinBytes(amountOut), '0x2::coin::Coin']] }, {}],
+                events,
+            }),
+        };
+    };
+
+    it('reports a sell fee in SUI, not in the 6-decimal idol coin', async () => {
+        simulate(990_000_000n, 10_000_000n);
+        const quote = await sui.quoteTrade('sell', IDOL, '1000');
+        assert.equal(quote.amountInRaw, '1000000000');
+        assert.equal(quote.amountOut, '0.99');
+        assert.equal(quote.fee, '0.01');
+        assert.equal(quote.feeSource, 'event');
+    });
+
+    it('derives a sell fee from feeRateBps on the SUI proceeds', async () => {
+        simulate(990_000_000n);
+        const quote = await sui.quoteTrade('sell', IDOL, '1000', { feeRateBps: 100 });
+        assert.equal(quote.fee, '0.01');
+        assert.equal(quote.feeSource, 'feeRateBps');
+    });
+
+    it('derives a buy fee from feeRateBps on the SUI paid in', async () => {
+        simulate(990_000n);
+        const quote = await sui.quoteTrade('buy', IDOL, '1', { feeRateBps: 100 });
+        assert.equal(quote.amountOut, '0.99');
+        assert.equal(quote.fee, '0.01');
+    });
+});
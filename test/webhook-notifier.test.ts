@@ -0,0 +1,73 @@
+//--- File: test/webhook-notifier.test.ts ---
+
+import assert from 'node:assert/strict';
+import { createHmac, timingSafeEqual } from 'node:crypto';
+import http from 'node:http';
+import { AddressInfo } from 'node:net';
+import { after, before, beforeEach, describe, it } from 'node:test';
+import { WebhookNotifier } from '../src/services/webhook-notifier';
+
+interface Delivery {
+    headers: http.IncomingHttpHeaders;
+    raw: string;
+}
+
+describe('WebhookNotifier', () => {
+    const secret = 'webhook-test-secret';
+    let server: http.Server;
+    let url: string;
+    let deliveries: Delivery[];
+
+    before(async () => {
+        server = http.createServer((req, res) => {
+            let raw = '';
+            req.on('data', (chunk) => (raw += chunk));
+            req.on('end', () => {
+                deliveries.push({ headers: req.headers, raw });
+                res.writeHead(204).end();
+            });
+        });
+        await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+        url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/hook`;
+    });
+
+    after(() => {
+        server.closeAllConnections();
+        server.close();
+    });
+
+    beforeEach(() => {
+        deliveries = [];
+    });
+
+    it('signs every delivery so the receiver can verify it with the shared secret', async () => {
+        const before = Math.floor(Date.now() / 1000);
+        const result = await new WebhookNotifier(secret, 1, 2_000).send(url, 'launch.completed', { jobId: 'job-1' });
+
+        assert.deepEqual(result, { ok: true, attempts: 1 });
+        assert.equal(deliveries.length, 1);
+        const { headers, raw } = deliveries[0];
+        assert.equal(headers['x-idol-event'], 'launch.completed');
+        assert.deepEqual(JSON.parse(raw), { event: 'launch.completed', data: { jobId: 'job-1' } });
+
+        const timestamp = String(headers['x-idol-timestamp']);
+        assert.ok(Number(timestamp) >= before && Number(timestamp) <= Math.floor(Date.now() / 1000));
+        const signature = String(headers['x-idol-signature']);
+        assert.match(signature, /^sha256=[0-9a-f]{64}$/);
+
+        // Verify the way a receiver would: recompute over the raw body and compare in constant time
+        const expected = createHmac('sha256', secret).update(`${timestamp}.${raw}`).digest('hex');
+        assert.ok(timingSafeEqual(Buffer.from(signature.slice('sha256='.length), 'hex'), Buffer.from(expected, 'hex')));
+    });
+
+    it('does not verify under a different secret', async () => {
+        await new WebhookNotifier(secret, 1, 2_000).send(url, 'launch.failed', { jobId: 'job-2' });
+        const { headers, raw } = deliveries[0];
+        const forged = createHmac('sha256', 'other-secret').update(`${headers['x-idol-timestamp']}.${raw}`).digest('hex');
+        assert.notEqual(headers['x-idol-signature'], `sha256=${forged}`);
+    });
+
+    it('refuses to be created without a secret', () => {
+        assert.throws(() => new WebhookNotifier(''), /WEBHOOK_SECRET/);
+    });
+});